@@ -0,0 +1,23 @@
+import type { SVGFileFormat } from '@/svg/types';
+
+export const CLI_FILE_FORMATS: SVGFileFormat[] = ['svg', 'png'];
+
+export const CLI_HELP = `Usage: gummygrid [seeds...] [options]
+
+Generates an avatar for every seed. Seeds are read from the arguments,
+from --file, or from stdin (one per line) when neither is given.
+
+Options:
+  -c, --config <path>     JSON or JS file exporting a GummyGridConfig
+  -f, --file <path>       read seeds from a file, one per line
+  -o, --out-dir <dir>     directory to write files to (default: .)
+  -n, --name <template>   filename template without extension; supports
+                          {seed} and {index} (default: {seed}); two seeds
+                          can't share a file
+  -F, --format <formats>  comma-separated list of svg, png (default: svg)
+  -s, --size <px>         width and height of raster formats
+  -p, --print             print each SVG to stdout instead of writing files
+  -m, --matrix            print each grid matrix to stdout as a JSON line
+      --schema            print the JSON Schema of config files
+  -h, --help              show this message
+`;
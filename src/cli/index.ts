@@ -0,0 +1,7 @@
+#!/usr/bin/env node
+import { main } from './main';
+
+main(process.argv.slice(2)).catch((e) => {
+  process.stderr.write(`gummygrid: ${e instanceof Error ? e.message : e}\n`);
+  process.exit(1);
+});
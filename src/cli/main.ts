@@ -0,0 +1,49 @@
+import GummyGrid from '@/generator';
+import fs from 'fs';
+import path from 'path';
+import { CLI_HELP } from './constants';
+import { getFilenames, loadConfig, parseArguments, readSeeds } from './utils';
+
+export async function main(args: string[]) {
+  const options = parseArguments(args);
+  if (options.help) {
+    process.stdout.write(CLI_HELP);
+    return;
+  }
+  if (options.schema) {
+    process.stdout.write(JSON.stringify(GummyGrid.schema, null, 2) + '\n');
+    return;
+  }
+
+  const config = options.config ? await loadConfig(options.config) : {};
+  const generator = new GummyGrid(config);
+  const seeds = await readSeeds(options);
+  if (!seeds.length) throw new Error('No seeds given (see --help)');
+
+  const writesFiles = !options.print && !options.matrix;
+  // checked before writing anything, so a clash doesn't leave half the files
+  const filenames = writesFiles ? getFilenames(options.name, seeds) : [];
+  if (writesFiles) fs.mkdirSync(options.outDir, { recursive: true });
+
+  for (const [index, seed] of seeds.entries()) {
+    const svg = generator.buildFrom(seed);
+
+    if (options.matrix) {
+      const matrix = generator.grid.getMatrix();
+      process.stdout.write(JSON.stringify({ seed, matrix }) + '\n');
+    }
+    if (options.print) {
+      process.stdout.write(svg.toString() + '\n');
+    }
+    if (writesFiles) {
+      const filename = path.join(options.outDir, filenames[index]!);
+      for (const format of options.formats) {
+        // with the extension given, a seed ending in one keeps it
+        await svg.writeFile(`${filename}.${format}`, {
+          format,
+          size: options.size,
+        });
+      }
+    }
+  }
+}
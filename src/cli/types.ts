@@ -0,0 +1,15 @@
+import type { SVGFileFormat } from '@/svg/types';
+
+export type CLIOptions = {
+  seeds: string[];
+  config?: string;
+  file?: string;
+  outDir: string;
+  name: string;
+  formats: SVGFileFormat[];
+  size?: number;
+  print: boolean;
+  matrix: boolean;
+  schema: boolean;
+  help: boolean;
+};
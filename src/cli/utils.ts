@@ -0,0 +1,162 @@
+import { parseConfigJSON } from '@/generator/schema';
+import type { GummyGridConfig } from '@/generator/types';
+import type { SVGFileFormat } from '@/svg/types';
+import fs from 'fs';
+import path from 'path';
+import { pathToFileURL } from 'url';
+import { CLI_FILE_FORMATS } from './constants';
+import type { CLIOptions } from './types';
+
+export function parseArguments(args: string[]): CLIOptions {
+  const options: CLIOptions = {
+    seeds: [],
+    outDir: '.',
+    name: '{seed}',
+    formats: ['svg'],
+    print: false,
+    matrix: false,
+    schema: false,
+    help: false,
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i]!;
+    const [flag, inlineValue] = arg.startsWith('--')
+      ? (arg.split(/=(.*)/s) as [string, string | undefined])
+      : [arg, undefined];
+    const value = () => {
+      const v = inlineValue ?? args[++i];
+      if (v === undefined) throw new Error(`Missing value for ${flag}`);
+      return v;
+    };
+
+    switch (flag) {
+      case '-c':
+      case '--config':
+        options.config = value();
+        break;
+      case '-f':
+      case '--file':
+        options.file = value();
+        break;
+      case '-o':
+      case '--out-dir':
+        options.outDir = value();
+        break;
+      case '-n':
+      case '--name':
+        options.name = value();
+        break;
+      case '-F':
+      case '--format':
+        options.formats = parseFormats(value());
+        break;
+      case '-s':
+      case '--size':
+        options.size = Number(value());
+        if (!Number.isInteger(options.size) || options.size <= 0)
+          throw new Error('--size must be a positive integer');
+        break;
+      case '-p':
+      case '--print':
+        options.print = true;
+        break;
+      case '-m':
+      case '--matrix':
+        options.matrix = true;
+        break;
+      case '--schema':
+        options.schema = true;
+        break;
+      case '-h':
+      case '--help':
+        options.help = true;
+        break;
+      case '--':
+        options.seeds.push(...args.slice(i + 1));
+        i = args.length;
+        break;
+      default:
+        if (arg.startsWith('-') && arg !== '-')
+          throw new Error(`Unknown option ${arg}`);
+        options.seeds.push(arg);
+    }
+  }
+
+  return options;
+}
+
+export async function loadConfig(file: string): Promise<GummyGridConfig> {
+  const filepath = path.resolve(file);
+  if (filepath.endsWith('.json')) {
+    return parseConfigJSON(fs.readFileSync(filepath, 'utf-8'));
+  }
+  const module = await import(pathToFileURL(filepath).href);
+  return module.default ?? module;
+}
+
+export async function readSeeds(options: CLIOptions): Promise<string[]> {
+  const seeds = options.seeds.filter((s) => s !== '-');
+  if (options.file) {
+    seeds.push(...splitLines(fs.readFileSync(options.file, 'utf-8')));
+  }
+  const wantsStdin = options.seeds.includes('-');
+  if (wantsStdin || (!seeds.length && !process.stdin.isTTY)) {
+    seeds.push(...splitLines(await readStream(process.stdin)));
+  }
+  return seeds;
+}
+
+export function formatFilename(
+  template: string,
+  values: { seed: string; index: number }
+) {
+  return template
+    .replace(/\{seed\}/g, sanitizeFilename(values.seed))
+    .replace(/\{index\}/g, String(values.index));
+}
+
+// the filename of every seed, throwing when two different seeds would share one
+export function getFilenames(template: string, seeds: string[]) {
+  const owners = new Map<string, string>();
+  return seeds.map((seed, index) => {
+    const filename = formatFilename(template, { seed, index });
+    const owner = owners.get(filename);
+    if (owner !== undefined && owner !== seed)
+      throw new Error(
+        `Seeds "${owner}" and "${seed}" would both be written to ${filename} (add {index} to --name to tell them apart)`
+      );
+    owners.set(filename, seed);
+    return filename;
+  });
+}
+
+function parseFormats(value: string): SVGFileFormat[] {
+  const formats = value.split(',').map((f) => f.trim().toLowerCase());
+  for (const format of formats) {
+    if (!CLI_FILE_FORMATS.includes(format as SVGFileFormat))
+      throw new Error(
+        `Unknown format "${format}" (expected one of: ${CLI_FILE_FORMATS.join(
+          ', '
+        )})`
+      );
+  }
+  return formats as SVGFileFormat[];
+}
+
+function sanitizeFilename(value: string) {
+  return value.replace(/[\\/:*?"<>|\x00-\x1f]/g, '_');
+}
+
+function splitLines(text: string) {
+  return text
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter(Boolean);
+}
+
+async function readStream(stream: NodeJS.ReadableStream) {
+  let data = '';
+  for await (const chunk of stream) data += chunk;
+  return data;
+}
@@ -1,8 +1,35 @@
-import type { AvatarGeneratorConfig } from './types';
+import { DEFAULT_LOGGER } from '@/logger/constants';
+import type {
+  AvatarGeneratorConfig,
+  BuiltInPreset,
+  GummyGridConfig,
+} from './types';
+
+// every change to the randomizer, grid or path drawing that alters the
+// generated output for an existing config must add a new version here,
+// which the golden fixtures in `test/fixtures` hold the old ones to
+export const OUTPUT_VERSIONS = [1] as const;
 
 export const DEFAULT_AVATAR_GENERATOR_CONFIG: AvatarGeneratorConfig = {
+  outputVersion: 1,
+  output: {
+    styling: 'css',
+    uniqueIds: false,
+  },
+  accessibility: {
+    title: '',
+    description: '',
+    decorative: false,
+  },
   randomizer: {
     salt: 0,
+    algorithm: 'legacy',
+    seed: {
+      trim: false,
+      lowercase: false,
+      normalize: 'none',
+      hash: 'none',
+    },
     bias: {
       cellFillProbability: 0.5,
       colorWeights: {},
@@ -17,7 +44,8 @@ export const DEFAULT_AVATAR_GENERATOR_CONFIG: AvatarGeneratorConfig = {
       topBottom: false,
       leftRight: false,
     },
-    verticalSymmetry: false,
+    constraints: {},
+    symmetry: 'horizontal',
   },
   svg: {
     patternAreaRatio: 0.675,
@@ -40,7 +68,20 @@ export const DEFAULT_AVATAR_GENERATOR_CONFIG: AvatarGeneratorConfig = {
       cellStroke: [],
       dropShadow: [],
     },
+    palette: {
+      base: '',
+      harmony: 'analogous',
+      size: 6,
+    },
+    minContrast: 0,
+    contrastAlgorithm: 'wcag',
     lockColors: [],
+    colorMode: 'uniform',
+    cellShape: 'square',
+    animation: {
+      preset: 'none',
+      keyframes: [],
+    },
     cellRounding: {
       outer: 0,
       inner: 0,
@@ -52,4 +93,89 @@ export const DEFAULT_AVATAR_GENERATOR_CONFIG: AvatarGeneratorConfig = {
     paintOrder: 'stroke',
     strokeLineJoin: 'miter',
   },
+  logger: DEFAULT_LOGGER,
+};
+
+// how many times a seed is re-salted before giving up on finding an avatar
+// that isn't taken
+export const UNIQUENESS_MAX_ATTEMPTS = 100;
+
+export const BUILT_IN_PRESET_NAMES = [
+  'gummy',
+  'pixel',
+  'github',
+  'bubbles',
+  'outline',
+  'neon',
+] as const;
+
+export const BUILT_IN_PRESETS: Record<BuiltInPreset, GummyGridConfig> = {
+  // soft, blobby shapes that melt into each other
+  gummy: {
+    svg: {
+      cellRounding: { outer: 1, inner: 0.5 },
+      flow: true,
+      gutter: 0,
+    },
+  },
+  // hard-edged cells on a larger grid, like sprites
+  pixel: {
+    grid: { size: 8 },
+    svg: {
+      patternAreaRatio: 0.75,
+      cellRounding: { outer: 0, inner: 0 },
+      flow: false,
+      gutter: 0,
+      strokeWidth: 0,
+    },
+  },
+  // a single generated color on a light gray background, like the default
+  // avatars on github
+  github: {
+    grid: { size: 5 },
+    svg: {
+      patternAreaRatio: 0.7,
+      colors: {
+        background: ['#f0f0f0'],
+        cellFill: { generate: 'hue', lightness: 0.62, chroma: 0.14 },
+      },
+      cellRounding: { outer: 0, inner: 0 },
+      gutter: 0,
+    },
+  },
+  // round cells with gaps between them, each in a color of its own
+  bubbles: {
+    svg: {
+      cellShape: 'circle',
+      colorMode: 'perCell',
+      gutter: 1,
+    },
+  },
+  // colored outlines on a white background
+  outline: {
+    svg: {
+      colors: {
+        background: ['#ffffff'],
+        cellFill: ['#ffffff'],
+        cellStroke: DEFAULT_AVATAR_GENERATOR_CONFIG.svg.colors
+          .cellFill as string[],
+      },
+      strokeWidth: 1.5,
+      paintOrder: 'normal',
+      strokeLineJoin: 'round',
+      cellRounding: { outer: 0.3, inner: 0.15 },
+    },
+  },
+  // glowing colors on a dark background
+  neon: {
+    svg: {
+      colors: {
+        background: ['#0d0221'],
+        cellFill: ['#ff2a6d', '#05d9e8', '#f9c80e', '#39ff14', '#bc13fe'],
+        dropShadow: ['#ffffffb3'],
+      },
+      filters: { dropShadow: ['0', '0', '3px'] },
+      cellRounding: { outer: 0.5, inner: 0.25 },
+    },
+  },
 };
@@ -0,0 +1,52 @@
+import type { ConfigIssue } from './types';
+
+// the base of the errors about configs, with every issue that was found
+export class GummyGridConfigError extends Error {
+  readonly issues: ConfigIssue[];
+
+  constructor(message: string, issues: ConfigIssue[]) {
+    super(message);
+    this.name = 'GummyGridConfigError';
+    this.issues = issues;
+  }
+}
+
+export class InvalidConfigError extends GummyGridConfigError {
+  constructor(issues: ConfigIssue[]) {
+    super(
+      `Invalid config:\n${issues
+        .map((issue) => `- ${formatConfigIssue(issue)}`)
+        .join('\n')}`,
+      issues
+    );
+    this.name = 'InvalidConfigError';
+  }
+}
+
+// a config stored as json that doesn't parse
+export class ConfigJSONError extends GummyGridConfigError {
+  constructor(message: string) {
+    super(`Invalid config JSON: ${message}`, [{ path: '', message }]);
+    this.name = 'ConfigJSONError';
+  }
+}
+
+export class UnknownPresetError extends GummyGridConfigError {
+  readonly preset: string;
+
+  constructor(preset: string, presetNames: string[]) {
+    const message = `must be one of: ${presetNames
+      .map((name) => JSON.stringify(name))
+      .join(', ')}`;
+    super(
+      `Unknown preset "${preset}" (expected one of: ${presetNames.join(', ')})`,
+      [{ path: 'preset', message }]
+    );
+    this.name = 'UnknownPresetError';
+    this.preset = preset;
+  }
+}
+
+export function formatConfigIssue(issue: ConfigIssue) {
+  return `${issue.path || 'config'}: ${issue.message}`;
+}
@@ -1,38 +1,297 @@
 import Grid from '@/grid';
+import { GridConstraintError } from '@/grid/errors';
+import { resolveGridSymmetry } from '@/grid/utils';
+import { resolveLogger } from '@/logger';
+import { DEFAULT_LOGGER } from '@/logger/constants';
+import type { Logger } from '@/logger/types';
 import Randomizer from '@/randomizer';
 import { WeightLengthMismatchError } from '@/randomizer/errors';
+import { formatSeed } from '@/randomizer/seed';
+import type { Seed } from '@/randomizer/types';
 import SVG from '@/svg';
-import { DEFAULT_AVATAR_GENERATOR_CONFIG } from './constants';
-import type { AvatarGeneratorConfig, GummyGridConfig } from './types';
-import { mergeObjectsRecursively } from './utils';
+import { SVG_TRANSITION_DEFAULTS } from '@/svg/constants';
+import { generatePalette } from '@/svg/palette';
+import { getCellShapeLattice } from '@/svg/shapes';
+import type { SVGPaletteConfig } from '@/svg/types';
+import {
+  DEFAULT_AVATAR_GENERATOR_CONFIG,
+  UNIQUENESS_MAX_ATTEMPTS,
+} from './constants';
+import {
+  formatConfigIssue,
+  GummyGridConfigError,
+  InvalidConfigError,
+} from './errors';
+import { getPreset, getPresetNames, registerPreset } from './presets';
+import { CONFIG_SCHEMA, parseConfigJSON, validateConfigSchema } from './schema';
+import type {
+  AvatarCollision,
+  AvatarGeneratorConfig,
+  AvatarTraits,
+  BuildOptions,
+  CollisionOptions,
+  ConfigValidation,
+  GummyGridConfig,
+  TransitionOptions,
+  UniquenessOptions,
+} from './types';
+import { validateConfig } from './validation';
+import {
+  cloneObjectRecursively,
+  connectLockedColorWeights,
+  freezeObjectRecursively,
+  getFingerprint,
+  getHammingDistance,
+  mergeObjectsRecursively,
+} from './utils';
 
 class GummyGrid {
-  config: AvatarGeneratorConfig;
+  // the json schema of the config, for editors and for validating configs
+  // stored as json
+  static readonly schema = freezeObjectRecursively(CONFIG_SCHEMA);
+
+  readonly config: Readonly<AvatarGeneratorConfig>;
   rand: Randomizer;
   grid: Grid;
   svg: SVG;
+  private readonly logger: Required<Logger>;
 
   constructor(config?: GummyGridConfig) {
-    this.config = mergeObjectsRecursively(
-      DEFAULT_AVATAR_GENERATOR_CONFIG,
-      config ?? {}
-    ) as AvatarGeneratorConfig;
+    const { errors, warnings } = GummyGrid.validate(config);
+    if (errors.length) throw new InvalidConfigError(errors);
+    this.config = GummyGrid.resolveConfig(config);
+    this.logger = resolveLogger(this.config.logger);
+    for (const warning of warnings)
+      this.logger.warn(formatConfigIssue(warning));
     this.rand = this.initializeRandomizer();
     this.grid = this.initializeGrid();
     this.svg = this.initializeSVG();
-    this.connectLockedColorWeights();
   }
 
-  buildFrom(value: string) {
-    this.grid.clear();
-    this.rand.setSeed(value);
-    this.grid.build();
-    this.svg.buildFrom(this.grid.iterateCells());
+  // a generator for a config stored as json, either as a string or parsed,
+  // which throws an error listing every problem with it
+  static fromJSON(json: string | object) {
+    return new GummyGrid(parseConfigJSON(json));
+  }
+
+  // the problems with `config`, each keyed by the path of its option. Errors
+  // keep a generator from being created, while warnings are only logged
+  static validate(config?: GummyGridConfig): ConfigValidation {
+    // the options are checked as they're passed first, since resolving
+    // them relies on their types
+    const { logger, ...options } = config ?? {};
+    const validation = validateConfigSchema(options);
+    if (validation.errors.length) return validation;
+    try {
+      return validateConfig(GummyGrid.resolveConfig(config));
+    } catch (e) {
+      // an unknown preset, or an invalid palette
+      if (e instanceof GummyGridConfigError)
+        return { errors: [...e.issues], warnings: [] };
+      throw e;
+    }
+  }
+
+  static resolveConfig(
+    config?: GummyGridConfig
+  ): Readonly<AvatarGeneratorConfig> {
+    const preset = config?.preset ? getPreset(config.preset) : {};
+    const { logger, ...options } = config ?? {};
+    const resolved = mergeObjectsRecursively(
+      GummyGrid.getDefaults(preset, config),
+      options
+    ) as AvatarGeneratorConfig;
+    // the symmetry of the preset only applies when `config` doesn't
+    // mention one in either of the two ways it can
+    const { symmetry, verticalSymmetry } = config?.grid ?? {};
+    resolved.grid.symmetry = resolveGridSymmetry({
+      ...(symmetry === undefined && verticalSymmetry === undefined
+        ? preset.grid
+        : config!.grid),
+    });
+    connectLockedColorWeights(resolved);
+    // a logger replaces the default one as a whole instead of being merged
+    // into it, and is left as it was passed rather than frozen
+    const { logger: _, ...rest } = freezeObjectRecursively(resolved);
+    return Object.freeze({
+      ...rest,
+      logger: logger ?? preset.logger ?? DEFAULT_LOGGER,
+    });
+  }
+
+  // makes `preset` available to configs by its name; registered presets
+  // can be based on other ones through their own `preset` option
+  static registerPreset(name: string, preset: GummyGridConfig) {
+    registerPreset(name, preset);
+  }
+
+  // the names of the built-in and registered presets
+  static getPresetNames() {
+    return getPresetNames();
+  }
+
+  // the preset goes over the defaults, and a generated palette takes the
+  // place of the colors of both, but not of the colors in `config`
+  private static getDefaults(
+    preset: GummyGridConfig,
+    config?: GummyGridConfig
+  ) {
+    const defaults = mergeObjectsRecursively(
+      DEFAULT_AVATAR_GENERATOR_CONFIG,
+      preset
+    ) as AvatarGeneratorConfig;
+    const palette = mergeObjectsRecursively(
+      defaults.svg.palette,
+      config?.svg?.palette ?? {}
+    ) as SVGPaletteConfig;
+    if (!palette.base) return defaults;
+    const strokeWidth = config?.svg?.strokeWidth ?? defaults.svg.strokeWidth;
+    return mergeObjectsRecursively(defaults, {
+      svg: {
+        colors: generatePalette(palette, { withStroke: strokeWidth > 0 }),
+      },
+    });
+  }
+
+  // the resolved config, which `fromJSON` turns back into an equivalent
+  // generator. Loggers can't be serialized, and are left out, as is the
+  // preset, which is already part of the config and may not be registered
+  // where it's loaded
+  toJSON(): GummyGridConfig {
+    const { logger, preset, ...config } = cloneObjectRecursively(this.config);
+    return logger == 'silent' ? { ...config, logger } : config;
+  }
+
+  buildFrom(value: Seed, options: BuildOptions = {}) {
+    this.buildGrid(value, this.getUniqueRound(value, options));
+    this.svg.buildFrom(this.grid.iterateCells(), {
+      seed: formatSeed(value),
+      name: options.name,
+      idPrefix: options.idPrefix,
+    });
     return this.svg;
   }
 
+  // what the avatar of `value` looks like, without drawing it; the grid is
+  // left in its state, like after `buildFrom`
+  getTraits(value: Seed, options: UniquenessOptions = {}): AvatarTraits {
+    this.buildGrid(value, this.getUniqueRound(value, options));
+    const frame = this.svg.drawFrame(this.grid.iterateCells());
+    return {
+      seed: formatSeed(value),
+      colors: this.svg.describeColors(frame),
+      fillRatio: this.grid.getFillRatio(),
+      regionCount: this.grid.getRegions().length,
+      symmetry: this.grid.symmetry,
+      matrix: this.grid.getMatrix(),
+      fingerprint: getFingerprint(frame),
+    };
+  }
+
+  // the pairs of `seeds` whose avatars look the same, or differ by at most
+  // `maxDistance` cells while having the same colors
+  findCollisions(
+    seeds: Seed[],
+    options: CollisionOptions = {}
+  ): AvatarCollision[] {
+    const { maxDistance = 0 } = options;
+    if (!Number.isInteger(maxDistance) || maxDistance < 0)
+      throw new Error('maxDistance must be an integer, 0 or more');
+    // only avatars with the same colors (or, without a distance, the same
+    // fingerprint) are compared to each other
+    const groups = new Map<string, AvatarTraits[]>();
+    // a seed that's listed twice would collide with itself
+    const seen = new Set<string>();
+    for (const seed of seeds) {
+      if (seen.has(formatSeed(seed))) continue;
+      seen.add(formatSeed(seed));
+      const traits = this.getTraits(seed);
+      const key = maxDistance
+        ? JSON.stringify(traits.colors)
+        : traits.fingerprint;
+      groups.set(key, [...(groups.get(key) ?? []), traits]);
+    }
+
+    const collisions: AvatarCollision[] = [];
+    for (const group of groups.values()) {
+      for (const [idx, a] of group.entries()) {
+        for (const b of group.slice(idx + 1)) {
+          const distance = getHammingDistance(a.matrix, b.matrix);
+          if (distance <= maxDistance)
+            collisions.push({ seeds: [a.seed, b.seed], distance });
+        }
+      }
+    }
+    return collisions;
+  }
+
+  // an animated avatar that morphs the one of `fromSeed` into the one of
+  // `toSeed`, which rasterizing and the accessibility templates refer to
+  transition(fromSeed: Seed, toSeed: Seed, options: TransitionOptions = {}) {
+    this.buildGrid(fromSeed, this.getUniqueRound(fromSeed, options));
+    const from = this.svg.drawFrame(this.grid.iterateCells());
+    this.buildGrid(toSeed, this.getUniqueRound(toSeed, options));
+    const to = this.svg.drawFrame(this.grid.iterateCells());
+    this.svg.buildTransition(
+      from,
+      to,
+      {
+        duration: options.duration ?? SVG_TRANSITION_DEFAULTS.duration,
+        easing: options.easing ?? SVG_TRANSITION_DEFAULTS.easing,
+      },
+      {
+        seed: formatSeed(toSeed),
+        name: options.name,
+        idPrefix: options.idPrefix,
+      }
+    );
+    return this.svg;
+  }
+
+  // the first round of re-salting `value` whose avatar isn't claimed by
+  // another seed in `options.registry`, which it then claims
+  private getUniqueRound(value: Seed, options: UniquenessOptions) {
+    const { registry } = options;
+    if (!registry) return 0;
+    const seed = formatSeed(value);
+    for (let round = 0; round < UNIQUENESS_MAX_ATTEMPTS; round++) {
+      this.buildGrid(value, round);
+      const frame = this.svg.drawFrame(this.grid.iterateCells());
+      const fingerprint = getFingerprint(frame);
+      const owner = registry.get(fingerprint);
+      if (owner === undefined || owner === seed) {
+        registry.set(fingerprint, seed);
+        return round;
+      }
+      this.logger.debug(
+        `The avatar of seed "${seed}" is taken by seed "${owner}", re-salting it`
+      );
+    }
+    throw new Error(
+      `Couldn't find an avatar for seed "${seed}" that isn't taken within ${UNIQUENESS_MAX_ATTEMPTS} attempts`
+    );
+  }
+
+  private buildGrid(value: Seed, round: number = 0) {
+    this.grid.clear();
+    this.rand.setSeed(value, round);
+    try {
+      this.grid.build();
+    } catch (e) {
+      if (e instanceof GridConstraintError) {
+        throw new GridConstraintError(
+          `${e.message} for seed "${formatSeed(value)}"`,
+          e.failedConstraints
+        );
+      } else {
+        throw e;
+      }
+    }
+  }
+
   private initializeRandomizer() {
-    return new Randomizer(this.config.randomizer.salt);
+    const { salt, algorithm, seed } = this.config.randomizer;
+    return new Randomizer(salt, algorithm, seed);
   }
 
   private initializeGrid() {
@@ -47,6 +306,8 @@ class GummyGrid {
         numberPicker: (min, max) => {
           return this.rand.number(min, max);
         },
+        lattice: getCellShapeLattice(this.config.svg.cellShape),
+        logger: this.logger,
       },
     });
   }
@@ -60,35 +321,28 @@ class GummyGrid {
           try {
             return this.rand.getChoiceIndex(colors, weights);
           } catch (e) {
+            // generated colors are only known once they're picked from
             if (e instanceof WeightLengthMismatchError) {
-              throw new Error(
-                `The color and weight arrays for category "${category}" must be of equal length`
-              );
+              throw new InvalidConfigError([
+                {
+                  path: `randomizer.bias.colorWeights.${category}`,
+                  message: `must have as many weights as colors.${category} has colors (${colors.length})`,
+                },
+              ]);
             } else {
               throw e;
             }
           }
         },
+        numberPicker: (min, max) => this.rand.number(min, max),
         cellSize: 10,
         gridSize: this.grid.size,
+        output: this.config.output,
+        accessibility: this.config.accessibility,
+        logger: this.logger,
       },
     });
   }
-
-  private connectLockedColorWeights() {
-    const colorWeights = this.config.randomizer.bias.colorWeights ?? {};
-    let weights;
-    for (const colorCategory of this.svg._lockedColors) {
-      if (colorCategory in colorWeights) {
-        weights = colorWeights[colorCategory]!;
-        break;
-      }
-    }
-    if (!weights) return;
-    for (const colorCategory of this.svg._lockedColors) {
-      colorWeights[colorCategory] = weights!;
-    }
-  }
 }
 
 export default GummyGrid;
@@ -0,0 +1,40 @@
+import { BUILT_IN_PRESETS, BUILT_IN_PRESET_NAMES } from './constants';
+import { UnknownPresetError } from './errors';
+import type { BuiltInPreset, GummyGridConfig } from './types';
+import {
+  cloneObjectRecursively,
+  freezeObjectRecursively,
+  mergeObjectsRecursively,
+} from './utils';
+
+const customPresets = new Map<string, GummyGridConfig>();
+
+// a preset can be based on another one, which it's flattened into right
+// away, so that presets never refer to each other in a loop
+export function registerPreset(name: string, config: GummyGridConfig) {
+  if (typeof name != 'string' || !name)
+    throw new Error('Preset names must be non-empty strings');
+  if (isBuiltInPreset(name))
+    throw new Error(`Preset "${name}" is built in and can't be replaced`);
+  const { preset, ...rest } = config;
+  const flattened = preset
+    ? mergeObjectsRecursively(getPreset(preset), rest)
+    : cloneObjectRecursively(rest);
+  customPresets.set(name, freezeObjectRecursively(flattened));
+}
+
+export function getPreset(name: string): GummyGridConfig {
+  const preset = isBuiltInPreset(name)
+    ? BUILT_IN_PRESETS[name]
+    : customPresets.get(name);
+  if (!preset) throw new UnknownPresetError(name, getPresetNames());
+  return preset;
+}
+
+export function getPresetNames() {
+  return [...BUILT_IN_PRESET_NAMES, ...customPresets.keys()];
+}
+
+function isBuiltInPreset(name: string): name is BuiltInPreset {
+  return BUILT_IN_PRESET_NAMES.includes(name as BuiltInPreset);
+}
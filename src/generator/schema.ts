@@ -0,0 +1,471 @@
+import { GRID_SYMMETRIES } from '@/grid/constants';
+import { SEED_HASHES, SEED_NORMALIZATIONS } from '@/randomizer/constants';
+import { RANDOM_SOURCES } from '@/randomizer/sources';
+import {
+  SVG_ANIMATION_PRESETS,
+  SVG_CELL_SHAPES,
+  SVG_COLOR_CATEGORIES,
+  SVG_COLOR_GENERATORS,
+  SVG_COLOR_MODES,
+  SVG_CONTRAST_ALGORITHMS,
+  SVG_PALETTE_HARMONIES,
+  SVG_STYLINGS,
+} from '@/svg/constants';
+import { OUTPUT_VERSIONS } from './constants';
+import { ConfigJSONError, InvalidConfigError } from './errors';
+import type { ConfigValidation, GummyGridConfig, JSONSchema } from './types';
+
+const string: JSONSchema = { type: 'string' };
+const number: JSONSchema = { type: 'number' };
+const boolean: JSONSchema = { type: 'boolean' };
+const ratio: JSONSchema = { type: 'number', minimum: 0, maximum: 1 };
+const positiveInteger: JSONSchema = { type: 'integer', minimum: 1 };
+const nonNegative: JSONSchema = { type: 'number', minimum: 0 };
+// the css values that filters take
+const LENGTH_UNITS =
+  'px|em|rem|ex|rex|ch|rch|cap|rcap|ic|ric|lh|rlh|vw|vh|vi|vb|vmin|vmax|cm|mm|q|in|pt|pc';
+const length: JSONSchema = {
+  title: 'a css length',
+  type: 'string',
+  pattern: `^(0|-?\\d*\\.?\\d+(${LENGTH_UNITS}))$`,
+};
+const nonNegativeLength: JSONSchema = {
+  title: 'a css length, 0 or more',
+  type: 'string',
+  pattern: `^(0|\\d*\\.?\\d+(${LENGTH_UNITS}))$`,
+};
+const amount: JSONSchema = {
+  title: 'a number or a percentage, 0 or more',
+  type: 'string',
+  pattern: '^\\d*\\.?\\d+%?$',
+};
+const angle: JSONSchema = {
+  title: 'an angle',
+  type: 'string',
+  pattern: '^(0|-?\\d*\\.?\\d+(deg|rad|grad|turn))$',
+};
+const ref = (name: string): JSONSchema => ({ $ref: `#/$defs/${name}` });
+
+// every option is optional, like in `GummyGridConfig`; unknown options
+// are flagged so that typos don't go unnoticed, though only with a
+// warning, since they're left alone
+function object(
+  properties: Record<string, JSONSchema>,
+  required: string[] = []
+): JSONSchema {
+  return {
+    type: 'object',
+    properties,
+    ...(required.length && { required }),
+    additionalProperties: false,
+  };
+}
+
+function oneOf(values: readonly unknown[]): JSONSchema {
+  return { enum: values };
+}
+
+function gradient(type: string, attrs: Record<string, JSONSchema>): JSONSchema {
+  return {
+    title: `a ${type}`,
+    ...object(
+      {
+        type: { const: type },
+        attrs: object({
+          ...attrs,
+          gradientUnits: oneOf(['userSpaceOnUse', 'objectBoundingBox']),
+          spreadMethod: oneOf(['pad', 'reflect', 'repeat']),
+          href: string,
+        }),
+        stops: { type: 'array', items: ref('stop'), minItems: 1 },
+      },
+      ['type', 'attrs', 'stops']
+    ),
+  };
+}
+
+// the json schema of `GummyGridConfig`, built from the same lists of
+// values that the options are checked against
+export const CONFIG_SCHEMA: JSONSchema = {
+  $schema: 'https://json-schema.org/draft/2020-12/schema',
+  ...object({
+    $schema: string,
+    // registered presets can have any name
+    preset: string,
+    outputVersion: oneOf(OUTPUT_VERSIONS),
+    output: object({
+      styling: oneOf(SVG_STYLINGS),
+      uniqueIds: boolean,
+    }),
+    accessibility: object({
+      title: string,
+      description: string,
+      decorative: boolean,
+    }),
+    randomizer: object({
+      salt: number,
+      algorithm: oneOf(Object.keys(RANDOM_SOURCES)),
+      seed: object({
+        trim: boolean,
+        lowercase: boolean,
+        normalize: oneOf(SEED_NORMALIZATIONS),
+        hash: oneOf(SEED_HASHES),
+      }),
+      bias: object({
+        cellFillProbability: ratio,
+        colorWeights: object(
+          Object.fromEntries(
+            SVG_COLOR_CATEGORIES.map((category) => [
+              category,
+              { type: 'array', items: nonNegative },
+            ])
+          )
+        ),
+      }),
+    }),
+    grid: object({
+      size: {
+        anyOf: [
+          positiveInteger,
+          object({ rows: positiveInteger, columns: positiveInteger }),
+        ],
+      },
+      symmetry: oneOf(GRID_SYMMETRIES),
+      verticalSymmetry: boolean,
+      ensureFill: object({ topBottom: boolean, leftRight: boolean }),
+      constraints: object({
+        minFill: ratio,
+        maxFill: ratio,
+        connected: boolean,
+        maxRegions: positiveInteger,
+        noIsolatedCells: boolean,
+        connectivity: oneOf([4, 8]),
+        maxAttempts: positiveInteger,
+      }),
+    }),
+    svg: object({
+      patternAreaRatio: { type: 'number', exclusiveMinimum: 0, maximum: 1 },
+      colors: object(
+        Object.fromEntries(
+          SVG_COLOR_CATEGORIES.map((category) => [
+            category,
+            { anyOf: [ref('colorList'), ref('colorGenerator')] },
+          ])
+        )
+      ),
+      palette: object({
+        base: string,
+        harmony: oneOf(SVG_PALETTE_HARMONIES),
+        size: positiveInteger,
+      }),
+      minContrast: nonNegative,
+      contrastAlgorithm: oneOf(SVG_CONTRAST_ALGORITHMS),
+      lockColors: {
+        anyOf: [
+          { type: 'array', items: oneOf(SVG_COLOR_CATEGORIES) },
+          { const: 'all' },
+        ],
+      },
+      colorMode: oneOf(SVG_COLOR_MODES),
+      cellShape: oneOf(SVG_CELL_SHAPES),
+      animation: object({
+        preset: oneOf(SVG_ANIMATION_PRESETS),
+        keyframes: {
+          type: 'array',
+          items: object(
+            {
+              offset: ratio,
+              opacity: number,
+              scale: number,
+              rotate: number,
+              hueRotate: number,
+            },
+            ['offset']
+          ),
+        },
+        target: oneOf(['pattern', 'cell']),
+        duration: { type: 'number', exclusiveMinimum: 0 },
+        stagger: nonNegative,
+        iterations: {
+          anyOf: [
+            { type: 'number', exclusiveMinimum: 0 },
+            { const: 'infinite' },
+          ],
+        },
+        easing: string,
+      }),
+      flow: boolean,
+      gutter: nonNegative,
+      cellRounding: object({ inner: ratio, outer: ratio }),
+      strokeWidth: nonNegative,
+      paintOrder: oneOf(['stroke', 'normal']),
+      strokeLineJoin: oneOf(['miter', 'miter-clip', 'round', 'bevel', 'arcs']),
+      filters: object({
+        blur: nonNegativeLength,
+        brightness: amount,
+        contrast: amount,
+        dropShadow: {
+          type: 'array',
+          prefixItems: [length, length, nonNegativeLength],
+          minItems: 3,
+          maxItems: 3,
+        },
+        grayscale: amount,
+        hueRotate: angle,
+        invert: amount,
+        opacity: amount,
+        saturate: amount,
+        sepia: amount,
+      }),
+    }),
+    // loggers are functions, which only exist in code
+    logger: { const: 'silent' },
+  }),
+  $defs: {
+    color: {
+      title: 'a color',
+      anyOf: [string, ref('linearGradient'), ref('radialGradient')],
+    },
+    linearGradient: gradient('linearGradient', {
+      x1: string,
+      x2: string,
+      y1: string,
+      y2: string,
+      gradientTransform: string,
+    }),
+    radialGradient: gradient('radialGradient', {
+      cx: string,
+      cy: string,
+      r: string,
+      r2: string,
+      fx: string,
+      fy: string,
+      fr: string,
+      transform: string,
+    }),
+    stop: object(
+      {
+        offset: {
+          anyOf: [
+            number,
+            {
+              title: 'a percentage',
+              type: 'string',
+              pattern: '^-?\\d*\\.?\\d+%$',
+            },
+          ],
+        },
+        color: string,
+        opacity: ratio,
+      },
+      ['offset', 'color']
+    ),
+    colorPair: {
+      title: 'a light and dark color pair',
+      ...object({ light: ref('color'), dark: ref('color') }, ['light', 'dark']),
+    },
+    colorList: {
+      title: 'a list of colors',
+      type: 'array',
+      items: { anyOf: [ref('color'), ref('colorPair')] },
+    },
+    colorGenerator: {
+      title: 'a color generator',
+      ...object(
+        {
+          generate: oneOf(SVG_COLOR_GENERATORS),
+          lightness: ratio,
+          chroma: { type: 'number', minimum: 0, maximum: 0.4 },
+        },
+        ['generate']
+      ),
+    },
+  },
+};
+
+// the problems with `value` as a config, each with the path of the
+// option it's about, e.g. `svg.colors.cellFill[2]`. Unknown options are
+// warnings, and everything else errors
+export function validateConfigSchema(value: unknown): ConfigValidation {
+  return validate(value, CONFIG_SCHEMA, '');
+}
+
+// parses and validates a config written as json
+export function parseConfigJSON(json: string | object): GummyGridConfig {
+  let value: unknown = json;
+  if (typeof json == 'string') {
+    try {
+      value = JSON.parse(json);
+    } catch (e) {
+      throw new ConfigJSONError(e instanceof Error ? e.message : String(e));
+    }
+  }
+  const { errors } = validateConfigSchema(value);
+  if (errors.length) throw new InvalidConfigError(errors);
+  const { $schema, ...config } = value as GummyGridConfig & {
+    $schema?: string;
+  };
+  return config;
+}
+
+function validate(
+  value: unknown,
+  schema: JSONSchema,
+  path: string
+): ConfigValidation {
+  schema = resolveRef(schema);
+  const at = (message: string) => ({
+    errors: [{ path, message }],
+    warnings: [],
+  });
+
+  if (schema.anyOf) {
+    const results = schema.anyOf.map((option) => validate(value, option, path));
+    const valid = results.find(({ errors }) => !errors.length);
+    if (valid) return valid;
+    // when the value only has the shape of one option, its problems are
+    // more helpful than a list of everything the value could have been
+    const matching = schema.anyOf
+      .map((option, idx) => ({ option, result: results[idx]! }))
+      .filter(({ option }) => hasShapeOf(value, option));
+    if (matching.length == 1) return matching[0]!.result;
+    return at(`must be ${schema.anyOf.map(describeSchema).join(' or ')}`);
+  }
+  if ('const' in schema && value !== schema.const)
+    return at(`must be ${JSON.stringify(schema.const)}`);
+  if (schema.enum && !schema.enum.includes(value))
+    return at(
+      `must be one of: ${schema.enum
+        .map((option) => JSON.stringify(option))
+        .join(', ')}`
+    );
+  if (schema.type && !isOfType(value, schema.type))
+    return at(`must be ${describeSchema(schema)}`);
+
+  if (typeof value == 'number') {
+    const { minimum, exclusiveMinimum, maximum } = schema;
+    if (minimum !== undefined && value < minimum)
+      return at(`must be at least ${minimum}`);
+    if (exclusiveMinimum !== undefined && value <= exclusiveMinimum)
+      return at(`must be greater than ${exclusiveMinimum}`);
+    if (maximum !== undefined && value > maximum)
+      return at(`must be at most ${maximum}`);
+  }
+  if (typeof value == 'string' && schema.pattern) {
+    if (!new RegExp(schema.pattern).test(value))
+      return at(
+        `must be ${schema.title ?? `a string matching ${schema.pattern}`}`
+      );
+  }
+
+  if (Array.isArray(value)) {
+    const { minItems, maxItems } = schema;
+    if (minItems !== undefined && value.length < minItems)
+      return at(`must have at least ${minItems} items`);
+    if (maxItems !== undefined && value.length > maxItems)
+      return at(`must have at most ${maxItems} items`);
+    return combine(
+      value.map((item, idx) => {
+        const itemSchema = schema.prefixItems?.[idx] ?? schema.items;
+        return itemSchema
+          ? validate(item, itemSchema, `${path}[${idx}]`)
+          : { errors: [], warnings: [] };
+      })
+    );
+  }
+
+  if (isObject(value)) {
+    const results: ConfigValidation[] = [];
+    for (const key of schema.required ?? []) {
+      if (!(key in value)) results.push(at(`is missing "${key}"`));
+    }
+    for (const [key, item] of Object.entries(value)) {
+      const itemPath = path ? `${path}.${key}` : key;
+      const itemSchema =
+        schema.properties?.[key] ??
+        (typeof schema.additionalProperties == 'object'
+          ? schema.additionalProperties
+          : null);
+      if (itemSchema) results.push(validate(item, itemSchema, itemPath));
+      else if (schema.additionalProperties === false)
+        results.push({
+          errors: [],
+          warnings: [
+            { path: itemPath, message: "isn't an option, and is ignored" },
+          ],
+        });
+    }
+    return combine(results);
+  }
+
+  return { errors: [], warnings: [] };
+}
+
+function combine(results: ConfigValidation[]): ConfigValidation {
+  return {
+    errors: results.flatMap(({ errors }) => errors),
+    warnings: results.flatMap(({ warnings }) => warnings),
+  };
+}
+
+// whether `value` is of the type, and has the properties, that tell the
+// options of an `anyOf` apart
+function hasShapeOf(value: unknown, schema: JSONSchema): boolean {
+  schema = resolveRef(schema);
+  if (schema.anyOf) return schema.anyOf.some((o) => hasShapeOf(value, o));
+  if ('const' in schema) return value === schema.const;
+  if (schema.enum) return schema.enum.includes(value);
+  if (schema.type && !isOfType(value, schema.type)) return false;
+  if (!isObject(value)) return true;
+  const properties = schema.properties ?? {};
+  return Object.entries(value).every(([key, item]) => {
+    const property = properties[key];
+    if (!property) return schema.additionalProperties !== false;
+    return !('const' in property) || item === property.const;
+  });
+}
+
+function describeSchema(schema: JSONSchema): string {
+  schema = resolveRef(schema);
+  if (schema.title) return schema.title;
+  if ('const' in schema) return JSON.stringify(schema.const);
+  if (schema.enum)
+    return `one of ${schema.enum.map((v) => JSON.stringify(v)).join(', ')}`;
+  switch (schema.type) {
+    case 'object':
+      return 'an object';
+    case 'array':
+      return 'an array';
+    case 'integer':
+      return 'an integer';
+    default:
+      return `a ${schema.type}`;
+  }
+}
+
+function resolveRef(schema: JSONSchema) {
+  if (!schema.$ref) return schema;
+  const name = schema.$ref.replace('#/$defs/', '');
+  return CONFIG_SCHEMA.$defs![name]!;
+}
+
+function isOfType(value: unknown, type: JSONSchema['type']) {
+  switch (type) {
+    case 'object':
+      return isObject(value);
+    case 'array':
+      return Array.isArray(value);
+    case 'integer':
+      return Number.isInteger(value);
+    case 'number':
+      return typeof value == 'number' && Number.isFinite(value);
+    case 'null':
+      return value === null;
+    default:
+      return typeof value == type;
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value == 'object' && value !== null && !Array.isArray(value);
+}
@@ -1,24 +1,151 @@
-import type { GridConfig } from '@/grid/types';
-import type { ColorCategory, SVGConfig } from '@/svg/types';
+import type { GridConfig, GridSymmetry } from '@/grid/types';
+import type { LoggerConfig } from '@/logger/types';
+import type { RandomizerAlgorithm, SeedConfig } from '@/randomizer/types';
+import type {
+  ColorCategory,
+  SVGAccessibilityConfig,
+  SVGColorTrait,
+  SVGConfig,
+  SVGOutputConfig,
+} from '@/svg/types';
+import type { BUILT_IN_PRESET_NAMES, OUTPUT_VERSIONS } from './constants';
+
+export type OutputVersion = (typeof OUTPUT_VERSIONS)[number];
 
 type RandomizerConfig = {
   salt: number;
+  algorithm: RandomizerAlgorithm;
+  seed: SeedConfig;
   bias: {
     cellFillProbability?: number;
     colorWeights?: Partial<Record<ColorCategory, number[]>>;
   };
 };
 
+export type BuiltInPreset = (typeof BUILT_IN_PRESET_NAMES)[number];
+
 export type AvatarGeneratorConfig = {
+  // the name of a built-in (see `BuiltInPreset`) or registered preset,
+  // which the rest of the config is layered over; `string & {}` keeps the
+  // built-in names suggested by editors
+  preset?: BuiltInPreset | (string & {});
+  outputVersion: OutputVersion;
+  output: SVGOutputConfig;
+  accessibility: SVGAccessibilityConfig;
   randomizer: RandomizerConfig;
   grid: GridConfig;
   svg: SVGConfig;
+  logger: LoggerConfig;
 };
 
-type DeepPartial<T> = T extends object
+// strings are left whole, as `string & {}` would otherwise be mapped as an object
+type DeepPartial<T> = T extends ((...args: any[]) => any) | string
+  ? T
+  : T extends object
   ? {
       [P in keyof T]?: DeepPartial<T[P]>;
     }
   : T;
 
 export type GummyGridConfig = DeepPartial<AvatarGeneratorConfig>;
+
+// where fingerprints of avatars are claimed by the seeds they were built
+// for; a `Map<string, string>` will do, or an adapter for a database
+export type AvatarRegistry = {
+  get(fingerprint: string): string | undefined;
+  set(fingerprint: string, seed: string): unknown;
+};
+
+export type UniquenessOptions = {
+  // re-salts seeds whose avatar has been claimed by another seed, until
+  // one is found that hasn't, and claims it
+  registry?: AvatarRegistry;
+};
+
+export type BuildOptions = UniquenessOptions & {
+  // a human-readable name for the avatar's owner, used by `{name}` in
+  // the accessibility templates
+  name?: string;
+  // prepended to every id in the document, instead of the seed-derived
+  // prefix of `output.uniqueIds`
+  idPrefix?: string;
+};
+
+// what an avatar looks like, for showing or comparing avatars without
+// parsing their svg
+export type AvatarTraits = {
+  seed: string;
+  // the colors picked for the avatar as a whole; in the other color modes
+  // than `'uniform'`, groups of cells pick their own `cellFill`
+  colors: Partial<Record<ColorCategory, SVGColorTrait>>;
+  fillRatio: number;
+  // with cells connected through their sides
+  regionCount: number;
+  symmetry: GridSymmetry;
+  matrix: number[][];
+  // shared by the avatars that look the same under the same config
+  fingerprint: string;
+};
+
+// two seeds of a batch whose avatars look the same, or nearly
+export type AvatarCollision = {
+  seeds: [string, string];
+  // the number of cells that are filled in one matrix but not the other
+  distance: number;
+};
+
+export type CollisionOptions = {
+  // how many cells two avatars with the same colors may differ by and
+  // still collide; with 0, avatars collide when their fingerprints match
+  maxDistance?: number;
+};
+
+export type TransitionOptions = BuildOptions & {
+  // in seconds
+  duration?: number;
+  // a css easing keyword or `cubic-bezier()`
+  easing?: string;
+};
+
+type JSONSchemaType =
+  | 'object'
+  | 'array'
+  | 'string'
+  | 'number'
+  | 'integer'
+  | 'boolean'
+  | 'null';
+
+// the subset of json schema (draft 2020-12) that the config schema uses
+export type JSONSchema = {
+  $schema?: string;
+  $ref?: string;
+  $defs?: Record<string, JSONSchema>;
+  title?: string;
+  type?: JSONSchemaType;
+  enum?: readonly unknown[];
+  const?: unknown;
+  anyOf?: JSONSchema[];
+  properties?: Record<string, JSONSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JSONSchema;
+  items?: JSONSchema;
+  prefixItems?: JSONSchema[];
+  minItems?: number;
+  maxItems?: number;
+  minimum?: number;
+  exclusiveMinimum?: number;
+  maximum?: number;
+  pattern?: string;
+};
+
+// a problem with the option at `path`, e.g. `svg.colors.cellStroke`, or
+// with the config as a whole when the path is empty
+export type ConfigIssue = { path: string; message: string };
+
+// errors keep a generator from being created, while warnings are about
+// options that won't have any effect, and are only logged
+export type ConfigValidation = {
+  errors: ConfigIssue[];
+  warnings: ConfigIssue[];
+};
@@ -1,14 +1,97 @@
+import { hashSeed } from '@/randomizer/utils';
+import type { ColorCategory, SVGFrame } from '@/svg/types';
+import type { AvatarGeneratorConfig } from './types';
+
 export function mergeObjectsRecursively(
   obj1: Record<any, any>,
   obj2: Record<any, any>
 ) {
+  const result = cloneObjectRecursively(obj1);
+
   for (const p in obj2) {
-    if (obj2[p]?.constructor === Object) {
-      obj1[p] = mergeObjectsRecursively(obj1[p], obj2[p]);
+    if (isPlainObject(obj2[p])) {
+      const base = isPlainObject(result[p]) ? result[p] : {};
+      result[p] = mergeObjectsRecursively(base, obj2[p]);
     } else {
-      obj1[p] = obj2[p];
+      result[p] = cloneObjectRecursively(obj2[p]);
+    }
+  }
+
+  return result;
+}
+
+export function cloneObjectRecursively<T>(value: T): T {
+  if (Array.isArray(value)) {
+    return value.map((v) => cloneObjectRecursively(v)) as T;
+  }
+  if (isPlainObject(value)) {
+    const result: Record<string, unknown> = {};
+    for (const p in value) {
+      result[p] = cloneObjectRecursively(value[p]);
+    }
+    return result as T;
+  }
+  return value;
+}
+
+export function freezeObjectRecursively<T>(value: T): T {
+  if (Array.isArray(value) || isPlainObject(value)) {
+    for (const v of Object.values(value)) {
+      freezeObjectRecursively(v);
+    }
+    Object.freeze(value);
+  }
+  return value;
+}
+
+// objects written as literals, unlike arrays, functions or class instances
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value == 'object' && value?.constructor === Object;
+}
+
+export function getLockedColorCategories(
+  config: AvatarGeneratorConfig
+): ColorCategory[] {
+  const { lockColors, colors } = config.svg;
+  if (lockColors == 'all') return Object.keys(colors) as ColorCategory[];
+  return lockColors;
+}
+
+export function connectLockedColorWeights(config: AvatarGeneratorConfig) {
+  const colorWeights = (config.randomizer.bias.colorWeights ??= {});
+  const lockedColors = getLockedColorCategories(config);
+  let weights;
+  for (const colorCategory of lockedColors) {
+    if (colorCategory in colorWeights) {
+      weights = colorWeights[colorCategory]!;
+      break;
     }
   }
+  if (!weights) return;
+  for (const colorCategory of lockedColors) {
+    colorWeights[colorCategory] = [...weights];
+  }
+}
+
+// a short hash of what an avatar looks like: the shapes of its patterns,
+// and the colors they and the background are painted in
+export function getFingerprint(frame: SVGFrame) {
+  const [a, b] = hashSeed(
+    JSON.stringify([
+      frame.colors.background,
+      frame.patterns.map((pattern) => [pattern.pathData, pattern.colors]),
+    ])
+  );
+  return [a, b].map((hash) => hash.toString(16).padStart(8, '0')).join('');
+}
 
-  return obj1;
+// the number of cells that are filled in one matrix but not the other
+export function getHammingDistance(a: number[][], b: number[][]) {
+  let distance = 0;
+  for (const [row, cells] of a.entries()) {
+    for (const [col, cell] of cells.entries()) {
+      if (cell !== b[row]?.[col]) distance++;
+    }
+  }
+  return distance;
 }
@@ -0,0 +1,48 @@
+import { validateGridConfig } from '@/grid/validation';
+import { validateLoggerConfig } from '@/logger';
+import { getLightColors } from '@/svg/palette';
+import { getCellShapeLattice } from '@/svg/shapes';
+import type { ColorCategory } from '@/svg/types';
+import { validateSVGConfig } from '@/svg/validation';
+import { validateConfigSchema } from './schema';
+import type { AvatarGeneratorConfig, ConfigValidation } from './types';
+
+// the issues with a resolved config. The schema goes first, since the
+// checks of options that depend on each other expect valid values
+export function validateConfig(
+  config: AvatarGeneratorConfig
+): ConfigValidation {
+  // loggers can be functions, which the schema only knows as `'silent'`
+  const { logger, ...options } = config;
+  const validation = validateConfigSchema(options);
+  validateLoggerConfig(logger, validation);
+  if (validation.errors.length) return validation;
+
+  validateGridConfig(
+    config.grid,
+    getCellShapeLattice(config.svg.cellShape),
+    validation
+  );
+  validateSVGConfig(config.svg, config.output, validation);
+  validateColorWeights(config, validation);
+  return validation;
+}
+
+function validateColorWeights(
+  config: AvatarGeneratorConfig,
+  validation: ConfigValidation
+) {
+  const { colorWeights = {} } = config.randomizer.bias;
+  for (const [category, weights] of Object.entries(colorWeights)) {
+    // generated colors, and empty lists, aren't picked from
+    const { length } = getLightColors(
+      config.svg.colors,
+      category as ColorCategory
+    );
+    if (length && weights.length != length)
+      validation.errors.push({
+        path: `randomizer.bias.colorWeights.${category}`,
+        message: `must have as many weights as colors.${category} has colors (${length})`,
+      });
+  }
+}
@@ -1,4 +1,5 @@
 import type Grid from '@/grid';
+import type { GridConnectivity } from '@/grid/types';
 import {
   CELL_NEIGHBOR_CORNERS,
   CELL_NEIGHBOR_DIRECTIONS,
@@ -10,6 +11,7 @@ class Cell {
   private grid: Grid;
   private filled: boolean;
   private pooled: boolean | null;
+  private regionIds: Partial<Record<GridConnectivity, number>>;
   public col: number;
   public row: number;
 
@@ -19,6 +21,7 @@ class Cell {
     this.row = coords.row;
     this.filled = false;
     this.pooled = null;
+    this.regionIds = {};
   }
 
   markPooled(value: boolean) {
@@ -52,10 +55,46 @@ class Cell {
     }
   }
 
+  // neighbors sharing a whole side with this cell: all six of a hexagon's
+  // neighbors, but only the orthogonal ones of squares and triangles
+  *iterateEdgeNeighbors() {
+    if (this.grid.lattice == 'hexagonal') {
+      yield* this.iterateAllNeighbors();
+    } else {
+      yield* this.iterateOrthogonalNeighbors();
+    }
+  }
+
+  // triangles alternate between pointing up and down along each row
+  isPointingUp() {
+    return (this.row + this.col) % 2 == 0;
+  }
+
   belongsToPool() {
     return this.pooled;
   }
 
+  setRegionId(connectivity: GridConnectivity, id: number | null) {
+    if (id === null) delete this.regionIds[connectivity];
+    else this.regionIds[connectivity] = id;
+  }
+
+  getRegionId(connectivity: GridConnectivity = 4): number | null {
+    return this.regionIds[connectivity] ?? null;
+  }
+
+  *iterateConnectedNeighbors(connectivity: GridConnectivity) {
+    const neighbors =
+      connectivity == 8
+        ? this.iterateAllNeighbors()
+        : this.iterateEdgeNeighbors();
+    for (const neighbor of neighbors) {
+      if (neighbor.isFilled()) {
+        yield neighbor;
+      }
+    }
+  }
+
   fill() {
     this.filled = true;
   }
@@ -64,26 +103,29 @@ class Cell {
     this.filled = false;
   }
 
-  fillHorizontalParallel() {
-    this.getHorizontalParallel()!.fill();
+  getParallels() {
+    return this.grid.getSymmetricCells(this).filter((cell) => cell !== this);
+  }
+
+  hasParallels() {
+    return this.getParallels().length > 0;
+  }
+
+  fillParallels() {
+    for (const parallel of this.getParallels()) parallel.fill();
   }
 
-  fillVerticalParallel() {
-    const parallel = this.getVerticalParallel();
-    parallel.fill();
-    if (parallel.hasHorizontalParallel()) parallel.fillHorizontalParallel();
+  unfillParallels() {
+    for (const parallel of this.getParallels()) parallel.unfill();
   }
 
-  hasHorizontalParallel() {
-    // in order for a cell NOT to have a parallel, the grid needs to
-    // be odd-sized AND the cell needs to be in a middle column
-    // therefore, if at least one of these conditions isn't met,
-    // we know that the cell DOES have a parallel
-    return !this.grid.isHorizontallyOddSized() || !this.isInMiddleColumn();
+  isSymmetryRepresentative() {
+    return this.getSymmetryRepresentative() === this;
   }
 
-  hasVerticalParallel() {
-    return !this.grid.isVerticallyOddSized() || !this.isInMiddleRow();
+  // the first cell among this one and its parallels, row by row
+  getSymmetryRepresentative() {
+    return this.grid.getSymmetricCells(this)[0]!;
   }
 
   isInMiddleColumn() {
@@ -134,31 +176,17 @@ class Cell {
     }
   }
 
-  private getHorizontalParallelCoords() {
-    return {
-      row: this.row,
-      col: this.grid.size.columns - this.col - 1,
-    };
-  }
-
-  private getHorizontalParallel() {
-    const coords = this.getHorizontalParallelCoords();
-    return this.grid.getCell(coords);
-  }
-
-  private getVerticalParallelCoords() {
-    return {
-      col: this.col,
-      row: this.grid.size.rows - this.row - 1,
-    };
-  }
-
-  private getVerticalParallel() {
-    const coords = this.getVerticalParallelCoords();
-    return this.grid.getCell(coords)!;
-  }
-
-  private getNeighborCoordinates(side: CellNeighborDirection): CellCoordinates {
+  private getNeighborCoordinates(
+    side: CellNeighborDirection
+  ): CellCoordinates | undefined {
+    if (this.grid.lattice == 'hexagonal') {
+      return this.getHexagonalNeighborCoordinates(side);
+    }
+    if (this.grid.lattice == 'triangular') {
+      // an upward triangle has no neighbor above its tip, and vice versa
+      if (side == 'TOP' && this.isPointingUp()) return;
+      if (side == 'BOTTOM' && !this.isPointingUp()) return;
+    }
     switch (side) {
       case 'LEFT':
         return { col: this.col - 1, row: this.row };
@@ -179,13 +207,38 @@ class Cell {
     }
   }
 
+  private getHexagonalNeighborCoordinates(
+    side: CellNeighborDirection
+  ): CellCoordinates | undefined {
+    // odd columns sit half a row lower than even ones
+    const shift = this.col % 2;
+    switch (side) {
+      case 'TOP':
+        return { col: this.col, row: this.row - 1 };
+      case 'BOTTOM':
+        return { col: this.col, row: this.row + 1 };
+      case 'TOP_LEFT':
+        return { col: this.col - 1, row: this.row - 1 + shift };
+      case 'BOTTOM_LEFT':
+        return { col: this.col - 1, row: this.row + shift };
+      case 'TOP_RIGHT':
+        return { col: this.col + 1, row: this.row - 1 + shift };
+      case 'BOTTOM_RIGHT':
+        return { col: this.col + 1, row: this.row + shift };
+      default:
+        return;
+    }
+  }
+
   private _getNeighbor(options: {
     onSide: CellNeighborDirection;
     status?: 'filled' | 'empty' | 'any';
   }) {
     let { onSide, status } = options;
     status ??= 'any';
-    const neighbor = this.grid.getCell(this.getNeighborCoordinates(onSide));
+    const coords = this.getNeighborCoordinates(onSide);
+    if (!coords) return;
+    const neighbor = this.grid.getCell(coords);
     if (!neighbor) return;
     if (status == 'any') return neighbor;
     if (status == 'filled' && neighbor.isFilled()) return neighbor;
@@ -0,0 +1,25 @@
+import type { GridLattice, GridSymmetry } from './types';
+
+export const GRID_MAX_BUILD_ATTEMPTS = 100;
+
+export const GRID_SYMMETRIES = [
+  'horizontal',
+  'vertical',
+  'both',
+  'rotational2',
+  'rotational4',
+  'diagonal',
+  'none',
+] as const;
+
+// the symmetries that map cells onto cells of the same shape and offset:
+// mirroring the staggered columns of hexagons or the alternating triangles
+// top to bottom, or turning them, lands cells between the rows
+export const GRID_LATTICE_SYMMETRIES: Record<
+  GridLattice,
+  readonly GridSymmetry[]
+> = {
+  square: GRID_SYMMETRIES,
+  hexagonal: ['horizontal', 'none'],
+  triangular: ['horizontal', 'none'],
+};
@@ -0,0 +1,9 @@
+export class GridConstraintError extends Error {
+  readonly failedConstraints: string[];
+
+  constructor(message: string, failedConstraints: string[]) {
+    super(message);
+    this.name = 'GridConstraintError';
+    this.failedConstraints = failedConstraints;
+  }
+}
@@ -1,16 +1,36 @@
 import Cell from './cell';
 import type { CellCoordinates } from './cell/types';
-import { GridInnerConfig } from './types';
+import { GRID_MAX_BUILD_ATTEMPTS } from './constants';
+import { GridConstraintError } from './errors';
+import {
+  GridConnectivity,
+  GridInnerConfig,
+  GridLattice,
+  GridRegion,
+  GridRegionStats,
+  GridSymmetry,
+} from './types';
+import {
+  getGridSize,
+  getSymmetryTransforms,
+  resolveGridSymmetry,
+} from './utils';
 
 class Grid {
   private readonly config: GridInnerConfig;
   private readonly grid: Array<Array<Cell>>;
+  private readonly symmetricCells: Map<Cell, Cell[]>;
   public readonly size: Readonly<{ rows: number; columns: number }>;
+  public readonly symmetry: GridSymmetry;
+  public readonly lattice: GridLattice;
 
   constructor(config: GridInnerConfig) {
     this.config = config;
-    this.size = this.getNormalizedSize();
+    this.size = getGridSize(this.config.size);
+    this.lattice = this.config.inner.lattice ?? 'square';
+    this.symmetry = resolveGridSymmetry(this.config);
     this.grid = this.getInitialGrid();
+    this.symmetricCells = this.getSymmetricCellMap();
   }
 
   wannaFill() {
@@ -22,15 +42,84 @@ class Grid {
   }
 
   build() {
-    this.generateCells();
-    if (this.needsTopBottomCells()) this.ensureTopBottomCells();
-    if (this.needsLeftRightCells()) this.ensureLeftRightCells();
+    const { rows, columns } = this.size;
+    this.debug(
+      `Building a ${rows}x${columns} grid with ${this.symmetry} symmetry`
+    );
+    if (this.hasConstraints()) {
+      this.buildWithConstraints();
+    } else {
+      this.generateAndEnsureCells();
+    }
+    this.getRegions({ connectivity: 8 });
+    this.getRegions({ connectivity: 4 });
+  }
+
+  // finds groups of connected filled cells, numbering them in the order
+  // their first cell appears (row by row), and tags each cell with its id
+  getRegions(options: { connectivity?: GridConnectivity } = {}): GridRegion[] {
+    const connectivity = options.connectivity ?? 4;
+    const regions: GridRegion[] = [];
+    const visited = new Set<Cell>();
+
+    for (const start of this.iterateCells()) {
+      start.setRegionId(connectivity, null);
+      if (connectivity == 4) start.markPooled(false);
+      if (start.isEmpty() || visited.has(start)) continue;
+
+      const region: GridRegion = { id: regions.length, cells: [] };
+      const stack = [start];
+      visited.add(start);
+      while (stack.length) {
+        const cell = stack.pop()!;
+        region.cells.push(cell);
+        for (const neighbor of cell.iterateConnectedNeighbors(connectivity)) {
+          if (visited.has(neighbor)) continue;
+          visited.add(neighbor);
+          stack.push(neighbor);
+        }
+      }
+      region.cells.sort((a, b) => a.row - b.row || a.col - b.col);
+      regions.push(region);
+    }
+
+    for (const region of regions) {
+      for (const cell of region.cells) {
+        cell.setRegionId(connectivity, region.id);
+        // cells are pooled when they share at least one side with another cell
+        if (connectivity == 4) cell.markPooled(region.cells.length > 1);
+      }
+    }
+
+    return regions;
+  }
+
+  getRegionStats(
+    options: { connectivity?: GridConnectivity } = {}
+  ): GridRegionStats {
+    const sizes = this.getRegions(options)
+      .map((region) => region.cells.length)
+      .sort((a, b) => b - a);
+    const total = sizes.reduce((sum, size) => sum + size, 0);
+    return {
+      count: sizes.length,
+      sizes,
+      largest: sizes[0] ?? 0,
+      smallest: sizes[sizes.length - 1] ?? 0,
+      mean: sizes.length ? total / sizes.length : 0,
+      isolated: sizes.filter((size) => size == 1).length,
+    };
   }
 
   getCell({ row, col }: CellCoordinates) {
     return this.grid[row]?.[col];
   }
 
+  // the cell along with all of its parallels, in row-by-row order
+  getSymmetricCells(cell: Cell) {
+    return this.symmetricCells.get(cell)!;
+  }
+
   isHorizontallyOddSized() {
     return this.size.columns % 2 !== 0;
   }
@@ -42,6 +131,8 @@ class Grid {
   clear() {
     for (const cell of this.iterateCells()) {
       cell.unfill();
+      cell.setRegionId(4, null);
+      cell.setRegionId(8, null);
     }
   }
 
@@ -69,23 +160,144 @@ class Grid {
     }
   }
 
-  private isVerticallySymmetrical() {
-    return this.config.verticalSymmetry == true;
+  private getSymmetricCellMap() {
+    const transforms = getSymmetryTransforms(this.symmetry, this.size);
+    const map = new Map<Cell, Cell[]>();
+    for (const cell of this.iterateCells()) {
+      if (map.has(cell)) continue;
+      const cells = new Set([cell]);
+      for (const c of cells) {
+        for (const transform of transforms) {
+          cells.add(this.getCell(transform(c))!);
+        }
+      }
+      const sorted = [...cells].sort((a, b) => a.row - b.row || a.col - b.col);
+      for (const c of sorted) map.set(c, sorted);
+    }
+    return map;
+  }
+
+  getFillRatio() {
+    let filled = 0;
+    for (const cell of this.iterateCells()) {
+      if (cell.isFilled()) filled++;
+    }
+    return filled / (this.size.rows * this.size.columns);
+  }
+
+  private generateAndEnsureCells() {
+    this.generateCells();
+    if (this.needsTopBottomCells()) this.ensureTopBottomCells();
+    if (this.needsLeftRightCells()) this.ensureLeftRightCells();
+  }
+
+  // every attempt draws new numbers from the same seeded stream,
+  // so the accepted grid is still fully determined by the seed
+  private buildWithConstraints() {
+    const maxAttempts =
+      this.config.constraints.maxAttempts ?? GRID_MAX_BUILD_ATTEMPTS;
+    let failedConstraints: string[] = [];
+    for (let attempt = 0; attempt < maxAttempts; attempt++) {
+      if (attempt > 0) this.clear();
+      this.generateAndEnsureCells();
+      this.repairConstraints();
+      failedConstraints = this.getFailedConstraints();
+      if (!failedConstraints.length) {
+        this.debug(`Satisfied the grid constraints on attempt ${attempt + 1}`);
+        return;
+      }
+      this.debug(
+        `Attempt ${
+          attempt + 1
+        } failed the grid constraints (${failedConstraints.join(', ')})`
+      );
+    }
+    throw new GridConstraintError(
+      `Couldn't satisfy the grid constraints (${failedConstraints.join(
+        ', '
+      )}) within ${maxAttempts} attempts`,
+      failedConstraints
+    );
+  }
+
+  private hasConstraints() {
+    const { minFill, maxFill, connected, maxRegions, noIsolatedCells } =
+      this.config.constraints;
+    return (
+      minFill !== undefined ||
+      maxFill !== undefined ||
+      connected == true ||
+      maxRegions !== undefined ||
+      noIsolatedCells == true
+    );
   }
 
-  private getNormalizedSize() {
-    const [rows, columns] =
-      typeof this.config.size == 'number'
-        ? [this.config.size, this.config.size]
-        : [this.config.size.rows, this.config.size.columns];
+  private repairConstraints() {
+    const { connected, maxRegions, noIsolatedCells } = this.config.constraints;
+    const connectivity = this.getConstraintConnectivity();
+
+    if (noIsolatedCells) {
+      for (const region of this.getRegions({ connectivity })) {
+        if (region.cells.length != 1) continue;
+        const cell = region.cells[0]!;
+        this.debug(
+          `noIsolatedCells: unfilled the cell at row ${cell.row}, column ${cell.col}`
+        );
+        this.unfillCellAndParallel(cell);
+      }
+    }
+
+    const regionLimit = connected ? 1 : maxRegions;
+    if (regionLimit !== undefined) {
+      // drop the smallest regions; removing a region also removes its mirror
+      // image, so the result is re-checked rather than assumed to be valid
+      const regions = this.getRegions({ connectivity }).sort(
+        (a, b) => b.cells.length - a.cells.length || a.id - b.id
+      );
+      for (const region of regions.slice(regionLimit)) {
+        const size = region.cells.length;
+        this.debug(
+          `${connected ? 'connected' : 'maxRegions'}: unfilled region ${
+            region.id
+          } (${size} ${size == 1 ? 'cell' : 'cells'})`
+        );
+        for (const cell of region.cells) this.unfillCellAndParallel(cell);
+      }
+    }
+  }
+
+  private getFailedConstraints() {
+    const { minFill, maxFill, connected, maxRegions, noIsolatedCells } =
+      this.config.constraints;
+    const regions = this.getRegions({
+      connectivity: this.getConstraintConnectivity(),
+    });
+    const fillRatio = this.getFillRatio();
+    const failed: string[] = [];
+
+    if (minFill !== undefined && fillRatio < minFill) failed.push('minFill');
+    if (maxFill !== undefined && fillRatio > maxFill) failed.push('maxFill');
+    if (connected && regions.length != 1) failed.push('connected');
+    if (maxRegions !== undefined && regions.length > maxRegions)
+      failed.push('maxRegions');
+    if (noIsolatedCells && regions.some((r) => r.cells.length == 1))
+      failed.push('noIsolatedCells');
+    if (
+      this.needsTopBottomCells() &&
+      (!this.hasFilledCellsTop() || !this.hasFilledCellsBottom())
+    )
+      failed.push('ensureFill.topBottom');
     if (
-      rows <= 0 ||
-      columns <= 0 ||
-      !Number.isInteger(rows) ||
-      !Number.isInteger(columns)
+      this.needsLeftRightCells() &&
+      (!this.hasFilledCellsLeft() || !this.hasFilledCellsRight())
     )
-      throw new Error('Rows and columns must both be a positive integer');
-    return { rows, columns };
+      failed.push('ensureFill.leftRight');
+
+    return failed;
+  }
+
+  private getConstraintConnectivity() {
+    return this.config.constraints.connectivity ?? 4;
   }
 
   private getInitialGrid() {
@@ -114,10 +326,12 @@ class Grid {
     if (!this.hasFilledCellsBottom()) rows.push(this.size.rows - 1);
     for (const row of rows) {
       const col = this.pickNumber(0, Math.floor(this.size.columns / 2));
+      this.debug(`ensureFill.topBottom: filled row ${row}, column ${col}`);
       this.fillCellAndParallel(this.getCell({ row, col })!);
       for (const c of cols) {
         if (c === col) continue;
         if (this.wannaFill()) {
+          this.debug(`ensureFill.topBottom: filled row ${row}, column ${c}`);
           this.fillCellAndParallel(this.getCell({ row, col: c })!);
           break;
         }
@@ -132,10 +346,12 @@ class Grid {
     if (!this.hasFilledCellsRight()) cols.push(this.size.columns - 1);
     for (const col of cols) {
       const row = this.pickNumber(0, Math.floor(this.size.rows / 2));
+      this.debug(`ensureFill.leftRight: filled row ${row}, column ${col}`);
       this.fillCellAndParallel(this.getCell({ row, col })!);
       for (const r of rows) {
         if (r === row) continue;
         if (this.wannaFill()) {
+          this.debug(`ensureFill.leftRight: filled row ${r}, column ${col}`);
           this.fillCellAndParallel(this.getCell({ col, row: r })!);
           break;
         }
@@ -145,12 +361,12 @@ class Grid {
 
   private fillCellAndParallel(cell: Cell) {
     cell.fill();
-    if (cell.hasHorizontalParallel()) {
-      cell.fillHorizontalParallel();
-    }
-    if (this.isVerticallySymmetrical() && cell.hasVerticalParallel()) {
-      cell.fillVerticalParallel();
-    }
+    cell.fillParallels();
+  }
+
+  private unfillCellAndParallel(cell: Cell) {
+    cell.unfill();
+    cell.unfillParallels();
   }
 
   private generateCells() {
@@ -159,6 +375,13 @@ class Grid {
         this.fillCellAndParallel(cell);
       }
     }
+    this.debug(
+      `Randomly filled ${Math.round(this.getFillRatio() * 100)}% of the cells`
+    );
+  }
+
+  private debug(message: string) {
+    this.config.inner.logger.debug(message);
   }
 
   private hasFilledCellsTop() {
@@ -193,27 +416,11 @@ class Grid {
     }
   }
 
-  private *iterateFillalbleColumns() {
-    // iterate up to middle column
-    // (inclusive if grid is odd-zied, exclusive if even-sized)
-    for (let c = 0; c < Math.ceil(this.size.columns / 2); c++) {
-      yield c;
-    }
-  }
-
-  private *iterateFillableRows() {
-    const rowLimit = this.isVerticallySymmetrical()
-      ? Math.ceil(this.size.rows / 2)
-      : this.size.rows;
-    for (let r = 0; r < rowLimit; r++) {
-      yield r;
-    }
-  }
-
   private *iterateFillableCells() {
-    for (const row of this.iterateFillableRows()) {
-      for (const col of this.iterateFillalbleColumns()) {
-        yield this.grid[row]![col]!;
+    // one cell per group of parallels: the first one, row by row
+    for (const cell of this.iterateCells()) {
+      if (cell.isSymmetryRepresentative()) {
+        yield cell;
       }
     }
   }
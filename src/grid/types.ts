@@ -1,14 +1,55 @@
+import type { Logger } from '@/logger/types';
+import type Cell from './cell';
+import type { GRID_SYMMETRIES } from './constants';
+
 export type GridInnerConfig = {
   size: number | { rows: number; columns: number };
-  verticalSymmetry: boolean;
+  symmetry?: GridSymmetry;
+  /** @deprecated use `symmetry: 'both'` instead */
+  verticalSymmetry?: boolean;
   ensureFill: {
     topBottom?: boolean;
     leftRight?: boolean;
   };
+  constraints: GridConstraints;
   inner: {
     fillDecider: () => boolean;
     numberPicker: (min: number, max: number) => number;
+    lattice?: GridLattice;
+    logger: Required<Logger>;
   };
 };
 
 export type GridConfig = Omit<GridInnerConfig, 'inner'>;
+
+// how cells are laid out and which cells neighbor each other
+export type GridLattice = 'square' | 'hexagonal' | 'triangular';
+
+export type GridSymmetry = (typeof GRID_SYMMETRIES)[number];
+
+export type GridConstraints = {
+  minFill?: number;
+  maxFill?: number;
+  connected?: boolean;
+  maxRegions?: number;
+  noIsolatedCells?: boolean;
+  connectivity?: GridConnectivity;
+  maxAttempts?: number;
+};
+
+// 4: cells connect through their sides, 8: through their sides and corners
+export type GridConnectivity = 4 | 8;
+
+export type GridRegion = {
+  id: number;
+  cells: Cell[];
+};
+
+export type GridRegionStats = {
+  count: number;
+  sizes: number[];
+  largest: number;
+  smallest: number;
+  mean: number;
+  isolated: number;
+};
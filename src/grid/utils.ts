@@ -0,0 +1,52 @@
+import type { CellCoordinates } from './cell/types';
+import type { GridConfig, GridSymmetry } from './types';
+
+type CoordinateTransform = (coords: CellCoordinates) => CellCoordinates;
+
+export function resolveGridSymmetry(
+  config: Pick<GridConfig, 'symmetry' | 'verticalSymmetry'>
+): GridSymmetry {
+  return config.symmetry ?? (config.verticalSymmetry ? 'both' : 'horizontal');
+}
+
+export function getGridSize(size: GridConfig['size']) {
+  return typeof size == 'number'
+    ? { rows: size, columns: size }
+    : { rows: size.rows, columns: size.columns };
+}
+
+// the transforms that generate a symmetry mode; a cell's parallels are
+// all the cells reachable by applying them repeatedly
+export function getSymmetryTransforms(
+  symmetry: GridSymmetry,
+  size: { rows: number; columns: number }
+): CoordinateTransform[] {
+  const { rows, columns } = size;
+  const mirrorLeftRight: CoordinateTransform = ({ row, col }) => ({
+    row,
+    col: columns - col - 1,
+  });
+  const mirrorTopBottom: CoordinateTransform = ({ row, col }) => ({
+    row: rows - row - 1,
+    col,
+  });
+
+  switch (symmetry) {
+    case 'horizontal':
+      return [mirrorLeftRight];
+    case 'vertical':
+      return [mirrorTopBottom];
+    case 'both':
+      return [mirrorLeftRight, mirrorTopBottom];
+    case 'rotational2':
+      return [
+        ({ row, col }) => ({ row: rows - row - 1, col: columns - col - 1 }),
+      ];
+    case 'rotational4':
+      return [({ row, col }) => ({ row: col, col: rows - row - 1 })];
+    case 'diagonal':
+      return [({ row, col }) => ({ row: col, col: row })];
+    case 'none':
+      return [];
+  }
+}
@@ -0,0 +1,35 @@
+import type { ConfigValidation } from '@/generator/types';
+import { GRID_LATTICE_SYMMETRIES } from './constants';
+import type { GridConfig, GridLattice } from './types';
+import { getGridSize, resolveGridSymmetry } from './utils';
+
+// the problems that the schema can't tell, between options that are each
+// valid on their own
+export function validateGridConfig(
+  config: GridConfig,
+  lattice: GridLattice,
+  validation: ConfigValidation
+) {
+  const symmetry = resolveGridSymmetry(config);
+  const { rows, columns } = getGridSize(config.size);
+  if ((symmetry == 'rotational4' || symmetry == 'diagonal') && rows != columns)
+    validation.errors.push({
+      path: 'grid.symmetry',
+      message: `"${symmetry}" requires a square grid`,
+    });
+  const supported = GRID_LATTICE_SYMMETRIES[lattice];
+  if (!supported.includes(symmetry))
+    validation.errors.push({
+      path: 'grid.symmetry',
+      message: `"${symmetry}" isn't supported by ${lattice} cells (expected one of: ${supported.join(
+        ', '
+      )})`,
+    });
+
+  const { minFill, maxFill } = config.constraints;
+  if (minFill !== undefined && maxFill !== undefined && minFill > maxFill)
+    validation.errors.push({
+      path: 'grid.constraints.minFill',
+      message: 'must not be greater than maxFill',
+    });
+}
@@ -1,5 +1,49 @@
 export { default } from '@/generator';
+export {
+  ConfigJSONError,
+  GummyGridConfigError,
+  InvalidConfigError,
+  UnknownPresetError,
+} from '@/generator/errors';
+export { GridConstraintError } from '@/grid/errors';
+export { UnknownEasingError } from '@/svg/errors';
 
-export type { GummyGridConfig } from '@/generator/types';
+export type {
+  AvatarCollision,
+  AvatarRegistry,
+  AvatarTraits,
+  BuildOptions,
+  BuiltInPreset,
+  CollisionOptions,
+  ConfigIssue,
+  ConfigValidation,
+  GummyGridConfig,
+  JSONSchema,
+  OutputVersion,
+  TransitionOptions,
+  UniquenessOptions,
+} from '@/generator/types';
+export type {
+  GridConnectivity,
+  GridRegion,
+  GridRegionStats,
+  GridSymmetry,
+} from '@/grid/types';
+export type { Logger, LoggerConfig } from '@/logger/types';
+export type {
+  RandomSource,
+  RandomizerAlgorithm,
+  Seed,
+  SeedConfig,
+  SeedHash,
+  SeedNormalization,
+} from '@/randomizer/types';
 export type { default as SVG } from '@/svg';
-export type { SVGColor } from '@/svg/types';
+export type {
+  SVGAttributes,
+  SVGColor,
+  SVGColorTrait,
+  SVGDocument,
+  SVGNode,
+  SVGStyleRule,
+} from '@/svg/types';
@@ -0,0 +1,6 @@
+import type { Logger } from './types';
+
+// frozen since every generator without a logger of its own shares it
+export const DEFAULT_LOGGER: Readonly<Logger> = Object.freeze({
+  warn: (message: string) => console.warn(`⚠️  ${message}`),
+});
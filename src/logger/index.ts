@@ -0,0 +1,36 @@
+import type { ConfigValidation } from '@/generator/types';
+import type { Logger, LoggerConfig } from './types';
+
+const noop = () => {};
+
+// loggers are left out of the schema, since they can't be stored as json
+export function validateLoggerConfig(
+  config: LoggerConfig,
+  validation: ConfigValidation
+) {
+  if (config == 'silent') return;
+  if (typeof config != 'object' || config === null) {
+    validation.errors.push({
+      path: 'logger',
+      message: 'must be "silent" or an object with warn and debug methods',
+    });
+    return;
+  }
+  for (const method of ['warn', 'debug'] as const) {
+    if (config[method] !== undefined && typeof config[method] != 'function')
+      validation.errors.push({
+        path: `logger.${method}`,
+        message: 'must be a function',
+      });
+  }
+}
+
+// a logger that can be called without checking which methods it has, for a
+// config that `validateLoggerConfig` found no errors in
+export function resolveLogger(config: LoggerConfig): Required<Logger> {
+  if (config == 'silent') return { warn: noop, debug: noop };
+  return {
+    warn: config.warn?.bind(config) ?? noop,
+    debug: config.debug?.bind(config) ?? noop,
+  };
+}
@@ -0,0 +1,10 @@
+// either method can be left out, which drops the messages it would get
+export type Logger = {
+  // configs that are valid, but probably not what was meant
+  warn?: (message: string) => void;
+  // the decisions that lead from a seed to an avatar
+  debug?: (message: string) => void;
+};
+
+// `'silent'` drops every message
+export type LoggerConfig = Logger | 'silent';
@@ -0,0 +1,19 @@
+import type { SeedConfig } from './types';
+
+export const SEED_NORMALIZATIONS = [
+  'none',
+  'NFC',
+  'NFD',
+  'NFKC',
+  'NFKD',
+] as const;
+
+export const SEED_HASHES = ['none', 'sha256', 'fnv1a64'] as const;
+
+// seeds are used as they are
+export const DEFAULT_SEED_CONFIG: SeedConfig = {
+  trim: false,
+  lowercase: false,
+  normalize: 'none',
+  hash: 'none',
+};
@@ -1,4 +1,13 @@
+import { DEFAULT_SEED_CONFIG } from './constants';
 import { WeightLengthMismatchError } from './errors';
+import { prepareSeed } from './seed';
+import { createRandomSource } from './sources';
+import type {
+  RandomSource,
+  RandomizerAlgorithm,
+  Seed,
+  SeedConfig,
+} from './types';
 import {
   binaryFindIndex,
   normalizeDecimalsToIntegers,
@@ -8,25 +17,29 @@ import {
 
 class Randomizer {
   private seed: string;
-  private hash: number;
-  private readonly salt: number;
-
-  constructor(salt: number = 0) {
+  private readonly source: RandomSource;
+  private readonly seedConfig: SeedConfig;
+
+  constructor(
+    salt: number = 0,
+    algorithm: RandomizerAlgorithm = 'legacy',
+    seedConfig: SeedConfig = DEFAULT_SEED_CONFIG
+  ) {
     this.seed = '';
-    this.hash = 0;
-    this.salt = salt;
-    this.bumpHash(this.salt);
+    this.source = createRandomSource(algorithm, salt);
+    this.seedConfig = seedConfig;
   }
 
-  setSeed(str: string): void {
-    this.seed = str;
-    this.setHash();
+  // a `round` other than 0 re-salts the seed, for a different sequence
+  // that's still fully determined by it
+  setSeed(seed: Seed, round: number = 0): void {
+    this.seed = prepareSeed(seed, this.seedConfig);
+    if (round) this.seed += `#${round}`;
+    this.source.setSeed(this.seed);
   }
 
   number(min: number, max: number): number {
-    const number = this.getRandomNumber(min, max);
-    this.updateHash();
-    return number;
+    return this.source.number(min, max);
   }
 
   boolean(bias?: number): boolean {
@@ -85,29 +98,6 @@ class Randomizer {
     return { idx, arr: filteredArr };
   }
 
-  private setHash(): void {
-    this.hash = 0;
-    for (let i = 0; i < this.seed.length; i++) {
-      let charCode = this.seed.charCodeAt(i);
-      this.bumpHash(charCode);
-    }
-    this.bumpHash(this.salt);
-  }
-
-  private bumpHash(number: number): void {
-    this.hash = (this.hash << 5) - this.hash + number;
-    this.hash |= 0;
-  }
-
-  private updateHash(): void {
-    this.bumpHash(this.getRandomNumber(1, 999));
-  }
-
-  private getRandomNumber(min: number, max: number): number {
-    const absHash = Math.abs(this.hash);
-    return (absHash % (max - min + 1)) + min;
-  }
-
   private normalizeWeights(arr: number[]): number[] {
     arr = normalizeDecimalsToIntegers(arr);
     arr = recursiveDivideByTen(arr);
@@ -0,0 +1,40 @@
+import type { Seed, SeedConfig } from './types';
+import { encodeUTF8, fnv1a64, sha256, toHex } from './utils';
+
+const SEED_HASH_FUNCTIONS = { sha256, fnv1a64 };
+
+// the string a seed is known by: numbers in decimal, bytes in hex
+export function formatSeed(seed: Seed): string {
+  if (typeof seed == 'string') return seed;
+  if (typeof seed == 'number') return String(seed);
+  return toHex(seed);
+}
+
+// the string the random source is seeded with. Strings are normalized
+// before they're hashed, while bytes are hashed as they are
+export function prepareSeed(seed: Seed, config: SeedConfig): string {
+  validateSeed(seed);
+  if (seed instanceof Uint8Array) {
+    return config.hash == 'none'
+      ? toHex(seed)
+      : toHex(SEED_HASH_FUNCTIONS[config.hash](seed));
+  }
+  let str = formatSeed(seed);
+  if (config.trim) str = str.trim();
+  if (config.lowercase) str = str.toLowerCase();
+  if (config.normalize != 'none') str = str.normalize(config.normalize);
+  return config.hash == 'none'
+    ? str
+    : toHex(SEED_HASH_FUNCTIONS[config.hash](encodeUTF8(str)));
+}
+
+function validateSeed(seed: Seed) {
+  if (typeof seed == 'number' && !Number.isFinite(seed))
+    throw new Error(`Seed must be a finite number, got ${seed}`);
+  if (
+    typeof seed != 'string' &&
+    typeof seed != 'number' &&
+    !(seed instanceof Uint8Array)
+  )
+    throw new Error('Seed must be a string, a number or a Uint8Array');
+}
@@ -0,0 +1,27 @@
+import type { RandomSource, RandomizerAlgorithm } from '../types';
+import LegacySource from './legacy';
+import Mulberry32Source from './mulberry32';
+import Sfc32Source from './sfc32';
+import Sha256Source from './sha256';
+import Xoshiro128Source from './xoshiro128';
+
+export const RANDOM_SOURCES = {
+  legacy: LegacySource,
+  mulberry32: Mulberry32Source,
+  xoshiro128: Xoshiro128Source,
+  sfc32: Sfc32Source,
+  sha256: Sha256Source,
+} as const;
+
+export function createRandomSource(
+  algorithm: RandomizerAlgorithm,
+  salt: number
+): RandomSource {
+  if (!Object.hasOwn(RANDOM_SOURCES, algorithm))
+    throw new Error(
+      `Unknown randomizer algorithm "${algorithm}" (expected one of: ${Object.keys(
+        RANDOM_SOURCES
+      ).join(', ')})`
+    );
+  return new RANDOM_SOURCES[algorithm](salt);
+}
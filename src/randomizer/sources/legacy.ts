@@ -0,0 +1,44 @@
+import type { RandomSource } from '../types';
+
+// the original 32-bit string hash, kept so that existing avatars don't change
+class LegacySource implements RandomSource {
+  private hash: number;
+  private readonly salt: number;
+
+  constructor(salt: number) {
+    this.hash = 0;
+    this.salt = salt;
+    this.bumpHash(this.salt);
+  }
+
+  setSeed(seed: string): void {
+    this.hash = 0;
+    for (let i = 0; i < seed.length; i++) {
+      let charCode = seed.charCodeAt(i);
+      this.bumpHash(charCode);
+    }
+    this.bumpHash(this.salt);
+  }
+
+  number(min: number, max: number): number {
+    const number = this.getRandomNumber(min, max);
+    this.updateHash();
+    return number;
+  }
+
+  private bumpHash(number: number): void {
+    this.hash = (this.hash << 5) - this.hash + number;
+    this.hash |= 0;
+  }
+
+  private updateHash(): void {
+    this.bumpHash(this.getRandomNumber(1, 999));
+  }
+
+  private getRandomNumber(min: number, max: number): number {
+    const absHash = Math.abs(this.hash);
+    return (absHash % (max - min + 1)) + min;
+  }
+}
+
+export default LegacySource;
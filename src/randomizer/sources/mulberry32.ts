@@ -0,0 +1,18 @@
+import Uint32Source from './uint32';
+
+class Mulberry32Source extends Uint32Source {
+  private state: number = 0;
+
+  protected seedState(words: [number, number, number, number]) {
+    this.state = words[0];
+  }
+
+  protected nextUint32() {
+    let t = (this.state = (this.state + 0x6d2b79f5) | 0);
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return (t ^ (t >>> 14)) >>> 0;
+  }
+}
+
+export default Mulberry32Source;
@@ -0,0 +1,25 @@
+import Uint32Source from './uint32';
+
+class Sfc32Source extends Uint32Source {
+  private state: [number, number, number, number] = [0, 0, 0, 0];
+
+  protected seedState(words: [number, number, number, number]) {
+    this.state = [words[0], words[1], words[2], 1];
+    // discard the first outputs, which are poorly mixed
+    for (let i = 0; i < 12; i++) this.nextUint32();
+  }
+
+  protected nextUint32() {
+    let [a, b, c, d] = this.state;
+    const t = (((a + b) | 0) + d) | 0;
+    d = (d + 1) | 0;
+    a = b ^ (b >>> 9);
+    b = (c + (c << 3)) | 0;
+    c = (c << 21) | (c >>> 11);
+    c = (c + t) | 0;
+    this.state = [a, b, c, d];
+    return t >>> 0;
+  }
+}
+
+export default Sfc32Source;
@@ -0,0 +1,38 @@
+import { encodeUTF8, sha256 } from '../utils';
+import Uint32Source from './uint32';
+
+// SHA-256 in counter mode: every block hashes the seed digest
+// together with a block counter, yielding 8 words at a time
+class Sha256Source extends Uint32Source {
+  private key: Uint8Array = new Uint8Array(32);
+  private counter: number = 0;
+  private block: Uint32Array = new Uint32Array(0);
+  private position: number = 0;
+
+  setSeed(seed: string): void {
+    this.key = sha256(encodeUTF8(`${this.salt}:${seed}`));
+    this.counter = 0;
+    this.position = 0;
+    this.block = new Uint32Array(0);
+  }
+
+  protected seedState() {}
+
+  protected nextUint32() {
+    if (this.position >= this.block.length) this.refillBlock();
+    return this.block[this.position++]!;
+  }
+
+  private refillBlock() {
+    const input = new Uint8Array(this.key.length + 4);
+    input.set(this.key);
+    new DataView(input.buffer).setUint32(this.key.length, this.counter++);
+    const digest = sha256(input);
+    const view = new DataView(digest.buffer);
+    this.block = new Uint32Array(8);
+    for (let i = 0; i < 8; i++) this.block[i] = view.getUint32(i * 4);
+    this.position = 0;
+  }
+}
+
+export default Sha256Source;
@@ -0,0 +1,25 @@
+import type { RandomSource } from '../types';
+import { hashSeed } from '../utils';
+
+// base for sources that produce uniformly distributed unsigned 32-bit integers
+abstract class Uint32Source implements RandomSource {
+  protected readonly salt: number;
+
+  constructor(salt: number) {
+    this.salt = salt;
+  }
+
+  setSeed(seed: string): void {
+    this.seedState(hashSeed(seed, this.salt));
+  }
+
+  number(min: number, max: number): number {
+    return min + Math.floor((this.nextUint32() / 2 ** 32) * (max - min + 1));
+  }
+
+  protected abstract seedState(words: [number, number, number, number]): void;
+
+  protected abstract nextUint32(): number;
+}
+
+export default Uint32Source;
@@ -0,0 +1,31 @@
+import Uint32Source from './uint32';
+
+// xoshiro128**
+class Xoshiro128Source extends Uint32Source {
+  private state: [number, number, number, number] = [0, 0, 0, 0];
+
+  protected seedState(words: [number, number, number, number]) {
+    this.state = [...words];
+    // an all-zero state would only ever produce zeros
+    if (this.state.every((w) => w === 0)) this.state[0] = 1;
+  }
+
+  protected nextUint32() {
+    const s = this.state;
+    const result = Math.imul(rotl(Math.imul(s[1], 5), 7), 9) >>> 0;
+    const t = s[1] << 9;
+    s[2] ^= s[0];
+    s[3] ^= s[1];
+    s[1] ^= s[2];
+    s[0] ^= s[3];
+    s[2] ^= t;
+    s[3] = rotl(s[3], 11);
+    return result;
+  }
+}
+
+function rotl(x: number, k: number) {
+  return (x << k) | (x >>> (32 - k));
+}
+
+export default Xoshiro128Source;
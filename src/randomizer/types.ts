@@ -0,0 +1,28 @@
+import type { SEED_HASHES, SEED_NORMALIZATIONS } from './constants';
+import type { RANDOM_SOURCES } from './sources';
+
+export interface RandomSource {
+  // resets the source's state from a seed; the salt is fixed per source
+  setSeed(seed: string): void;
+  // returns an integer between `min` and `max` (both inclusive)
+  // and advances the source's state
+  number(min: number, max: number): number;
+}
+
+export type RandomizerAlgorithm = keyof typeof RANDOM_SOURCES;
+
+export type Seed = string | number | Uint8Array;
+
+export type SeedNormalization = (typeof SEED_NORMALIZATIONS)[number];
+
+export type SeedHash = (typeof SEED_HASHES)[number];
+
+// how a seed is prepared before it's handed to the random source
+export type SeedConfig = {
+  trim: boolean;
+  lowercase: boolean;
+  // a unicode normalization form, so that differently composed but
+  // equivalent strings seed the same avatar
+  normalize: SeedNormalization;
+  hash: SeedHash;
+};
@@ -0,0 +1,210 @@
+import type { SVGColor, SVGGradientColor, Stop } from '@/svg/types';
+import { NAMED_COLORS } from './constants';
+import type { BoundingBox, Paint, Point, RGBA } from './types';
+
+export function parseColor(color: string): RGBA {
+  const value = color.trim().toLowerCase();
+
+  if (value == 'transparent') return [0, 0, 0, 0];
+  if (value == 'currentcolor') return [0, 0, 0, 1];
+  if (Object.hasOwn(NAMED_COLORS, value))
+    return parseColor(NAMED_COLORS[value]!);
+
+  if (value.startsWith('#')) return parseHexColor(value);
+
+  const match = value.match(/^(rgba?|hsla?)\((.*)\)$/);
+  if (match) {
+    const [, func, args] = match;
+    const parts = args!
+      .split(/[\s,/]+/)
+      .map((p) => p.trim())
+      .filter(Boolean);
+    if (parts.length == 3 || parts.length == 4) {
+      const alpha = parts[3] === undefined ? 1 : parseAlpha(parts[3]);
+      if (func!.startsWith('rgb')) {
+        const [r, g, b] = parts.map((p) =>
+          p.endsWith('%') ? parseFloat(p) / 100 : parseFloat(p) / 255
+        );
+        return clampColor([r!, g!, b!, alpha]);
+      } else {
+        const h = parseAngle(parts[0]!);
+        const s = parseFloat(parts[1]!) / 100;
+        const l = parseFloat(parts[2]!) / 100;
+        return clampColor([...hslToRGB(h, s, l), alpha]);
+      }
+    }
+  }
+
+  throw new Error(`Unsupported color "${color}"`);
+}
+
+export function createPaint(options: {
+  color: SVGColor;
+  bbox: BoundingBox;
+  viewport: number;
+  toLocal: (p: Point) => Point;
+}): Paint {
+  const { color, bbox, viewport, toLocal } = options;
+
+  if (typeof color == 'string') {
+    const rgba = parseColor(color);
+    return () => rgba;
+  }
+
+  const stops = normalizeStops(color.stops);
+  const spread = color.attrs.spreadMethod ?? 'pad';
+  const getOffset = getGradientOffsetFunction(color, bbox, viewport);
+
+  return (x, y) => {
+    const t = applySpread(getOffset(toLocal({ x, y })), spread);
+    return interpolateStops(stops, t);
+  };
+}
+
+function getGradientOffsetFunction(
+  color: SVGGradientColor,
+  bbox: BoundingBox,
+  viewport: number
+) {
+  const userSpace = color.attrs.gradientUnits == 'userSpaceOnUse';
+
+  // gradient coordinates are resolved in the unit square of the bounding
+  // box by default, or in the element's own coordinate system otherwise
+  const toUnit = ({ x, y }: Point): Point =>
+    userSpace
+      ? { x, y }
+      : { x: (x - bbox.x) / bbox.width, y: (y - bbox.y) / bbox.height };
+  const length = (value: string | undefined, fallback: string) => {
+    value ??= fallback;
+    if (value.endsWith('%'))
+      return (parseFloat(value) / 100) * (userSpace ? viewport : 1);
+    return parseFloat(value);
+  };
+
+  if (color.type == 'linearGradient') {
+    const x1 = length(color.attrs.x1, '0%');
+    const y1 = length(color.attrs.y1, '0%');
+    const x2 = length(color.attrs.x2, '100%');
+    const y2 = length(color.attrs.y2, '0%');
+    const dx = x2 - x1;
+    const dy = y2 - y1;
+    const lengthSquared = dx * dx + dy * dy || 1;
+    return (p: Point) => {
+      const { x, y } = toUnit(p);
+      return ((x - x1) * dx + (y - y1) * dy) / lengthSquared;
+    };
+  }
+
+  const cx = length(color.attrs.cx, '50%');
+  const cy = length(color.attrs.cy, '50%');
+  const r = length(color.attrs.r, '50%');
+  const fx = length(color.attrs.fx, String(cx));
+  const fy = length(color.attrs.fy, String(cy));
+  const fr = length(color.attrs.fr, '0');
+
+  // two-point conical gradient: find the largest t for which p lies on the
+  // circle interpolated between the focal circle and the end circle
+  const cdx = cx - fx;
+  const cdy = cy - fy;
+  const dr = r - fr;
+  const a = cdx * cdx + cdy * cdy - dr * dr;
+  return (p: Point) => {
+    const { x, y } = toUnit(p);
+    const pdx = x - fx;
+    const pdy = y - fy;
+    const b = pdx * cdx + pdy * cdy + fr * dr;
+    const c = pdx * pdx + pdy * pdy - fr * fr;
+    if (Math.abs(a) < 1e-9) return b == 0 ? 0 : c / (2 * b);
+    const discriminant = b * b - a * c;
+    if (discriminant < 0) return 0;
+    const sqrt = Math.sqrt(discriminant);
+    const t1 = (b + sqrt) / a;
+    const t2 = (b - sqrt) / a;
+    const t = Math.max(t1, t2);
+    return fr + t * dr >= 0 ? t : Math.min(t1, t2);
+  };
+}
+
+function normalizeStops(stops: Stop[]) {
+  let previousOffset = 0;
+  return stops.map((stop) => {
+    let offset =
+      typeof stop.offset == 'number'
+        ? stop.offset
+        : parseFloat(stop.offset) / 100;
+    offset = Math.max(previousOffset, Math.min(1, offset));
+    previousOffset = offset;
+    const [r, g, b, a] = parseColor(stop.color);
+    return { offset, color: [r, g, b, a * (stop.opacity ?? 1)] as RGBA };
+  });
+}
+
+function applySpread(t: number, spread: 'pad' | 'reflect' | 'repeat') {
+  if (spread == 'repeat') return t - Math.floor(t);
+  if (spread == 'reflect') {
+    const period = t - 2 * Math.floor(t / 2);
+    return period > 1 ? 2 - period : period;
+  }
+  return Math.max(0, Math.min(1, t));
+}
+
+function interpolateStops(
+  stops: Array<{ offset: number; color: RGBA }>,
+  t: number
+): RGBA {
+  if (stops.length == 0) return [0, 0, 0, 0];
+  const first = stops[0]!;
+  const last = stops[stops.length - 1]!;
+  if (t <= first.offset) return first.color;
+  if (t >= last.offset) return last.color;
+  for (let i = 1; i < stops.length; i++) {
+    const to = stops[i]!;
+    if (t > to.offset) continue;
+    const from = stops[i - 1]!;
+    const ratio = (t - from.offset) / (to.offset - from.offset || 1);
+    return from.color.map((v, idx) => v + (to.color[idx]! - v) * ratio) as RGBA;
+  }
+  return last.color;
+}
+
+function parseHexColor(value: string): RGBA {
+  let hex = value.slice(1);
+  if (hex.length == 3 || hex.length == 4) {
+    hex = [...hex].map((c) => c + c).join('');
+  }
+  if (!/^([0-9a-f]{6}|[0-9a-f]{8})$/.test(hex))
+    throw new Error(`Unsupported color "${value}"`);
+  const channels = hex.match(/../g)!.map((c) => parseInt(c, 16) / 255);
+  return [channels[0]!, channels[1]!, channels[2]!, channels[3] ?? 1];
+}
+
+function parseAlpha(value: string) {
+  return value.endsWith('%') ? parseFloat(value) / 100 : parseFloat(value);
+}
+
+export function parseAngle(value: string) {
+  const number = parseFloat(value);
+  if (value.endsWith('rad')) return (number * 180) / Math.PI;
+  if (value.endsWith('grad')) return number * 0.9;
+  if (value.endsWith('turn')) return number * 360;
+  return number;
+}
+
+function hslToRGB(h: number, s: number, l: number): [number, number, number] {
+  h = (((h % 360) + 360) % 360) / 360;
+  const q = l < 0.5 ? l * (1 + s) : l + s - l * s;
+  const p = 2 * l - q;
+  const hueToChannel = (t: number) => {
+    if (t < 0) t += 1;
+    if (t > 1) t -= 1;
+    if (t < 1 / 6) return p + (q - p) * 6 * t;
+    if (t < 1 / 2) return q;
+    if (t < 2 / 3) return p + (q - p) * (2 / 3 - t) * 6;
+    return p;
+  };
+  return [hueToChannel(h + 1 / 3), hueToChannel(h), hueToChannel(h - 1 / 3)];
+}
+
+function clampColor(color: RGBA): RGBA {
+  return color.map((v) => Math.max(0, Math.min(1, v))) as RGBA;
+}
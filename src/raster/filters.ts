@@ -0,0 +1,158 @@
+import type { SVGConfig } from '@/svg/types';
+import { parseAngle } from './colors';
+import { PX_PER_UNIT } from './constants';
+import type { ColorMatrix, Paint } from './types';
+import Raster from '.';
+
+// applies css filter functions in declaration order, mirroring `formatCSSFilters`
+export function applyFilters(
+  raster: Raster,
+  filters: SVGConfig['filters'],
+  options: { scale: number; dropShadowPaint?: Paint }
+): Raster {
+  const { scale } = options;
+
+  for (const [key, filter] of Object.entries(filters)) {
+    if (key == 'dropShadow') {
+      const [x, y, blur] = filter as [string, string, string];
+      raster = dropShadow(raster, {
+        dx: parseLength(x) * scale,
+        dy: parseLength(y) * scale,
+        // the blur radius of a shadow is twice its standard deviation
+        deviation: (parseLength(blur) / 2) * scale,
+        paint: options.dropShadowPaint!,
+      });
+      continue;
+    }
+
+    const value = filter as string;
+    switch (key) {
+      case 'blur':
+        raster = raster.blur(parseLength(value) * scale);
+        break;
+      case 'brightness':
+        mapChannels(raster, (v) => v * parseAmount(value));
+        break;
+      case 'contrast': {
+        const amount = parseAmount(value);
+        mapChannels(raster, (v) => v * amount + 0.5 - 0.5 * amount);
+        break;
+      }
+      case 'grayscale':
+        applyColorMatrix(raster, getGrayscaleMatrix(clampAmount(value)));
+        break;
+      case 'hueRotate':
+        applyColorMatrix(raster, getHueRotateMatrix(parseAngle(value || '0')));
+        break;
+      case 'invert': {
+        const amount = clampAmount(value);
+        mapChannels(raster, (v) => amount + v * (1 - 2 * amount));
+        break;
+      }
+      case 'opacity':
+        raster.multiplyAlpha(clampAmount(value));
+        break;
+      case 'saturate':
+        applyColorMatrix(raster, getSaturateMatrix(parseAmount(value)));
+        break;
+      case 'sepia':
+        applyColorMatrix(raster, getSepiaMatrix(clampAmount(value)));
+        break;
+    }
+  }
+
+  return raster;
+}
+
+function dropShadow(
+  raster: Raster,
+  options: { dx: number; dy: number; deviation: number; paint: Paint }
+) {
+  // the shadow is painted before being offset, so a gradient lines up with
+  // the shape casting it
+  const shadow = raster.silhouette(options.paint).blur(options.deviation);
+  const result = new Raster(raster.width, raster.height);
+  result.draw(shadow, { x: Math.round(options.dx), y: Math.round(options.dy) });
+  result.draw(raster);
+  return result;
+}
+
+function mapChannels(raster: Raster, fn: (value: number) => number) {
+  raster.mapColors(([r, g, b, a]) => [fn(r), fn(g), fn(b), a]);
+}
+
+function applyColorMatrix(raster: Raster, m: ColorMatrix) {
+  raster.mapColors(([r, g, b, a]) => [
+    m[0][0] * r + m[0][1] * g + m[0][2] * b,
+    m[1][0] * r + m[1][1] * g + m[1][2] * b,
+    m[2][0] * r + m[2][1] * g + m[2][2] * b,
+    a,
+  ]);
+}
+
+export function getGrayscaleMatrix(amount: number): ColorMatrix {
+  const s = 1 - amount;
+  return [
+    [0.2126 + 0.7874 * s, 0.7152 - 0.7152 * s, 0.0722 - 0.0722 * s],
+    [0.2126 - 0.2126 * s, 0.7152 + 0.2848 * s, 0.0722 - 0.0722 * s],
+    [0.2126 - 0.2126 * s, 0.7152 - 0.7152 * s, 0.0722 + 0.9278 * s],
+  ];
+}
+
+export function getSepiaMatrix(amount: number): ColorMatrix {
+  const s = 1 - amount;
+  return [
+    [0.393 + 0.607 * s, 0.769 - 0.769 * s, 0.189 - 0.189 * s],
+    [0.349 - 0.349 * s, 0.686 + 0.314 * s, 0.168 - 0.168 * s],
+    [0.272 - 0.272 * s, 0.534 - 0.534 * s, 0.131 + 0.869 * s],
+  ];
+}
+
+export function getSaturateMatrix(s: number): ColorMatrix {
+  return [
+    [0.213 + 0.787 * s, 0.715 - 0.715 * s, 0.072 - 0.072 * s],
+    [0.213 - 0.213 * s, 0.715 + 0.285 * s, 0.072 - 0.072 * s],
+    [0.213 - 0.213 * s, 0.715 - 0.715 * s, 0.072 + 0.928 * s],
+  ];
+}
+
+export function getHueRotateMatrix(degrees: number): ColorMatrix {
+  const cos = Math.cos((degrees * Math.PI) / 180);
+  const sin = Math.sin((degrees * Math.PI) / 180);
+  return [
+    [
+      0.213 + cos * 0.787 - sin * 0.213,
+      0.715 - cos * 0.715 - sin * 0.715,
+      0.072 - cos * 0.072 + sin * 0.928,
+    ],
+    [
+      0.213 - cos * 0.213 + sin * 0.143,
+      0.715 + cos * 0.285 + sin * 0.14,
+      0.072 - cos * 0.072 - sin * 0.283,
+    ],
+    [
+      0.213 - cos * 0.213 - sin * 0.787,
+      0.715 - cos * 0.715 + sin * 0.715,
+      0.072 + cos * 0.928 + sin * 0.072,
+    ],
+  ];
+}
+
+export function parseAmount(value: string | undefined) {
+  if (!value) return 1;
+  const number = parseFloat(value);
+  return value.trim().endsWith('%') ? number / 100 : number;
+}
+
+export function clampAmount(value: string | undefined) {
+  return Math.max(0, Math.min(1, parseAmount(value)));
+}
+
+// in px, like css does for absolute units. Font-relative units are taken
+// against the default font size of 16px, and the other relative ones as px
+export function parseLength(value: string | undefined) {
+  if (!value) return 0;
+  const unit = /[a-z]*$/i.exec(value.trim())![0].toLowerCase();
+  const px = Object.hasOwn(PX_PER_UNIT, unit) ? PX_PER_UNIT[unit]! : 1;
+  return (parseFloat(value) || 0) * px;
+}
@@ -0,0 +1,247 @@
+import { RASTER_SUBSAMPLES } from './constants';
+import { encodePNG } from './png';
+import type { Paint, Point, Polygon, RGBA } from './types';
+
+type Edge = { x0: number; y0: number; x1: number; y1: number; dir: 1 | -1 };
+
+// a bitmap of premultiplied rgba values
+class Raster {
+  public readonly width: number;
+  public readonly height: number;
+  private readonly data: Float32Array;
+
+  constructor(width: number, height: number) {
+    this.width = width;
+    this.height = height;
+    this.data = new Float32Array(width * height * 4);
+  }
+
+  // paints the area enclosed by the polygons (nonzero fill rule), antialiased
+  fill(polygons: Polygon[], paint: Paint) {
+    const coverage = this.getCoverage(polygons);
+    for (let i = 0; i < coverage.length; i++) {
+      const c = Math.min(1, coverage[i]!);
+      if (c <= 0) continue;
+      const x = i % this.width;
+      const y = Math.floor(i / this.width);
+      const [r, g, b, a] = paint(x + 0.5, y + 0.5);
+      this.blendPixel(i, [r * a * c, g * a * c, b * a * c, a * c]);
+    }
+  }
+
+  // composites `source` on top of this raster (source-over)
+  draw(source: Raster, offset: Point = { x: 0, y: 0 }) {
+    for (let y = 0; y < this.height; y++) {
+      const sy = y - offset.y;
+      if (sy < 0 || sy >= source.height) continue;
+      for (let x = 0; x < this.width; x++) {
+        const sx = x - offset.x;
+        if (sx < 0 || sx >= source.width) continue;
+        const si = (sy * source.width + sx) * 4;
+        const pixel = source.data.subarray(si, si + 4);
+        if (pixel[3]! > 0) this.blendPixel(y * this.width + x, pixel);
+      }
+    }
+  }
+
+  // calls `fn` with the non-premultiplied color of each visible pixel
+  mapColors(fn: (color: RGBA) => RGBA) {
+    for (let i = 0; i < this.data.length; i += 4) {
+      const a = this.data[i + 3]!;
+      if (a <= 0) continue;
+      const [r, g, b] = fn([
+        this.data[i]! / a,
+        this.data[i + 1]! / a,
+        this.data[i + 2]! / a,
+        a,
+      ]).map((v) => Math.max(0, Math.min(1, v)));
+      this.data[i] = r! * a;
+      this.data[i + 1] = g! * a;
+      this.data[i + 2] = b! * a;
+    }
+  }
+
+  multiplyAlpha(factor: number) {
+    for (let i = 0; i < this.data.length; i++) {
+      this.data[i]! *= factor;
+    }
+  }
+
+  // a copy of this raster with every pixel painted with `paint`,
+  // keeping only the alpha channel
+  silhouette(paint: Paint): Raster {
+    const result = new Raster(this.width, this.height);
+    for (let i = 0; i < this.data.length; i += 4) {
+      const x = (i / 4) % this.width;
+      const y = Math.floor(i / 4 / this.width);
+      const [r, g, b, a] = paint(x + 0.5, y + 0.5);
+      const alpha = this.data[i + 3]! * a;
+      result.data.set([r * alpha, g * alpha, b * alpha, alpha], i);
+    }
+    return result;
+  }
+
+  // approximates a gaussian blur with three successive box blurs
+  blur(deviation: number): Raster {
+    const result = new Raster(this.width, this.height);
+    result.data.set(this.data);
+    if (deviation <= 0) return result;
+    for (const size of getBoxSizes(deviation, 3)) {
+      const radius = (size - 1) / 2;
+      result.boxBlur(radius, 'horizontal');
+      result.boxBlur(radius, 'vertical');
+    }
+    return result;
+  }
+
+  toRGBA8(): Uint8Array {
+    const result = new Uint8Array(this.data.length);
+    for (let i = 0; i < this.data.length; i += 4) {
+      const a = Math.min(1, this.data[i + 3]!);
+      if (a <= 0) continue;
+      for (let c = 0; c < 3; c++) {
+        result[i + c] = Math.round(Math.min(1, this.data[i + c]! / a) * 255);
+      }
+      result[i + 3] = Math.round(a * 255);
+    }
+    return result;
+  }
+
+  toPNG() {
+    return encodePNG(this.width, this.height, this.toRGBA8());
+  }
+
+  private blendPixel(idx: number, pixel: ArrayLike<number>) {
+    const i = idx * 4;
+    const inverseAlpha = 1 - pixel[3]!;
+    for (let c = 0; c < 4; c++) {
+      this.data[i + c] = pixel[c]! + this.data[i + c]! * inverseAlpha;
+    }
+  }
+
+  private getCoverage(polygons: Polygon[]) {
+    const coverage = new Float32Array(this.width * this.height);
+    const edges = getEdges(polygons).sort((a, b) => a.y0 - b.y0);
+    const weight = 1 / RASTER_SUBSAMPLES;
+
+    let active: Edge[] = [];
+    let nextEdge = 0;
+    const crossings: Array<{ x: number; dir: number }> = [];
+
+    for (let row = 0; row < this.height * RASTER_SUBSAMPLES; row++) {
+      const sy = (row + 0.5) * weight;
+      while (nextEdge < edges.length && edges[nextEdge]!.y0 <= sy) {
+        active.push(edges[nextEdge++]!);
+      }
+      active = active.filter((e) => e.y1 > sy);
+
+      crossings.length = 0;
+      for (const e of active) {
+        if (e.y0 > sy) continue;
+        const x = e.x0 + ((sy - e.y0) * (e.x1 - e.x0)) / (e.y1 - e.y0);
+        crossings.push({ x, dir: e.dir });
+      }
+      crossings.sort((a, b) => a.x - b.x);
+
+      const offset = Math.floor(sy) * this.width;
+      let winding = 0;
+      let spanStart = 0;
+      for (const { x, dir } of crossings) {
+        const wasInside = winding !== 0;
+        winding += dir;
+        if (!wasInside && winding !== 0) spanStart = x;
+        if (wasInside && winding === 0) {
+          this.addSpan(coverage, offset, spanStart, x, weight);
+        }
+      }
+    }
+
+    return coverage;
+  }
+
+  private addSpan(
+    coverage: Float32Array,
+    offset: number,
+    from: number,
+    to: number,
+    weight: number
+  ) {
+    from = Math.max(0, from);
+    to = Math.min(this.width, to);
+    if (to <= from) return;
+    const start = Math.floor(from);
+    const end = Math.floor(to);
+    if (start === end) {
+      coverage[offset + start]! += (to - from) * weight;
+      return;
+    }
+    coverage[offset + start]! += (start + 1 - from) * weight;
+    for (let x = start + 1; x < end; x++) coverage[offset + x]! += weight;
+    if (end < this.width) coverage[offset + end]! += (to - end) * weight;
+  }
+
+  private boxBlur(radius: number, direction: 'horizontal' | 'vertical') {
+    const [outer, inner] =
+      direction == 'horizontal'
+        ? [this.height, this.width]
+        : [this.width, this.height];
+    const index = (o: number, i: number) =>
+      (direction == 'horizontal' ? o * this.width + i : i * this.width + o) * 4;
+    const line = new Float32Array(inner * 4);
+    const size = radius * 2 + 1;
+
+    for (let o = 0; o < outer; o++) {
+      for (let i = 0; i < inner; i++) {
+        line.set(this.data.subarray(index(o, i), index(o, i) + 4), i * 4);
+      }
+      for (let c = 0; c < 4; c++) {
+        let sum = 0;
+        for (let i = -radius; i <= radius; i++) {
+          if (i >= 0 && i < inner) sum += line[i * 4 + c]!;
+        }
+        for (let i = 0; i < inner; i++) {
+          this.data[index(o, i) + c] = sum / size;
+          const leaving = i - radius;
+          const entering = i + radius + 1;
+          if (leaving >= 0) sum -= line[leaving * 4 + c]!;
+          if (entering < inner) sum += line[entering * 4 + c]!;
+        }
+      }
+    }
+  }
+}
+
+function getEdges(polygons: Polygon[]): Edge[] {
+  const edges: Edge[] = [];
+  for (const polygon of polygons) {
+    for (let i = 0; i < polygon.length; i++) {
+      const a = polygon[i]!;
+      const b = polygon[(i + 1) % polygon.length]!;
+      if (a.y === b.y) continue;
+      edges.push(
+        a.y < b.y
+          ? { x0: a.x, y0: a.y, x1: b.x, y1: b.y, dir: 1 }
+          : { x0: b.x, y0: b.y, x1: a.x, y1: a.y, dir: -1 }
+      );
+    }
+  }
+  return edges;
+}
+
+// odd box sizes whose successive application approximates a gaussian
+function getBoxSizes(deviation: number, count: number) {
+  const idealWidth = Math.sqrt((12 * deviation * deviation) / count + 1);
+  let lower = Math.floor(idealWidth);
+  if (lower % 2 == 0) lower--;
+  const upper = lower + 2;
+  const idealCount =
+    (12 * deviation * deviation -
+      count * lower * lower -
+      4 * count * lower -
+      3 * count) /
+    (-4 * lower - 4);
+  const m = Math.round(idealCount);
+  return [...Array(count).keys()].map((i) => (i < m ? lower : upper));
+}
+
+export default Raster;
@@ -0,0 +1,270 @@
+import { ARC_FLATTENING_STEP, STROKE_MITER_LIMIT } from './constants';
+import type { Point, Polygon, StrokeOptions } from './types';
+
+// flattens path data made of absolute M, L, A and Z commands into polygons
+export function parsePathData(d: string): Polygon[] {
+  const tokens =
+    d.match(/[a-z]|[-+]?(?:\d+\.?\d*|\.\d+)(?:e[-+]?\d+)?/gi) ?? [];
+  const polygons: Polygon[] = [];
+  let current: Polygon = [];
+  let position: Point = { x: 0, y: 0 };
+  let command = '';
+  let i = 0;
+
+  const next = () => parseFloat(tokens[i++]!);
+  const closeCurrent = () => {
+    if (current.length > 2) polygons.push(current);
+    current = [];
+  };
+
+  while (i < tokens.length) {
+    if (/[a-z]/i.test(tokens[i]!)) command = tokens[i++]!;
+    switch (command) {
+      case 'M':
+        closeCurrent();
+        position = { x: next(), y: next() };
+        current.push(position);
+        command = 'L';
+        break;
+      case 'L':
+        position = { x: next(), y: next() };
+        current.push(position);
+        break;
+      case 'A': {
+        const [rx, ry, rotation, largeArc, sweep, x, y] = [
+          next(),
+          next(),
+          next(),
+          next(),
+          next(),
+          next(),
+          next(),
+        ] as const;
+        const end = { x, y };
+        current.push(
+          ...flattenArc(position, end, rx, ry, rotation, !!largeArc, !!sweep)
+        );
+        position = end;
+        break;
+      }
+      case 'Z':
+      case 'z':
+        closeCurrent();
+        break;
+      default:
+        throw new Error(`Unsupported path command "${command}"`);
+    }
+  }
+  closeCurrent();
+
+  return polygons.map(removeDuplicatePoints).filter((p) => p.length > 2);
+}
+
+// builds the outline of a stroke along closed polygons, as a set of
+// positively oriented polygons that can be filled with the nonzero rule
+export function strokePolygons(
+  polygons: Polygon[],
+  options: StrokeOptions
+): Polygon[] {
+  const halfWidth = options.width / 2;
+  const result: Polygon[] = [];
+
+  for (const polygon of polygons) {
+    const n = polygon.length;
+    for (let i = 0; i < n; i++) {
+      const prev = polygon[(i - 1 + n) % n]!;
+      const point = polygon[i]!;
+      const next = polygon[(i + 1) % n]!;
+
+      const normal = getNormal(point, next, halfWidth);
+      result.push(
+        orient([
+          add(point, normal),
+          add(next, normal),
+          subtract(next, normal),
+          subtract(point, normal),
+        ])
+      );
+
+      const join = getJoinPolygon(prev, point, next, halfWidth, options);
+      if (join) result.push(orient(join));
+    }
+  }
+
+  return result;
+}
+
+export function getBoundingBox(polygons: Polygon[]) {
+  let [minX, minY, maxX, maxY] = [Infinity, Infinity, -Infinity, -Infinity];
+  for (const polygon of polygons) {
+    for (const { x, y } of polygon) {
+      minX = Math.min(minX, x);
+      minY = Math.min(minY, y);
+      maxX = Math.max(maxX, x);
+      maxY = Math.max(maxY, y);
+    }
+  }
+  if (minX > maxX) return { x: 0, y: 0, width: 0, height: 0 };
+  return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+}
+
+function getJoinPolygon(
+  prev: Point,
+  point: Point,
+  next: Point,
+  halfWidth: number,
+  options: StrokeOptions
+): Polygon | undefined {
+  const n0 = getNormal(prev, point, halfWidth);
+  const n1 = getNormal(point, next, halfWidth);
+  const d0 = subtract(point, prev);
+  const d1 = subtract(next, point);
+  const cross = d0.x * d1.y - d0.y * d1.x;
+  if (Math.abs(cross) < 1e-12) return;
+
+  // the join fills the gap on the outer side of the turn
+  const side = cross > 0 ? -1 : 1;
+  const a = add(point, scale(n0, side));
+  const b = add(point, scale(n1, side));
+
+  const dot = d0.x * d1.x + d0.y * d1.y;
+  const angle = Math.atan2(Math.abs(cross), dot);
+
+  if (options.lineJoin == 'round' || options.lineJoin == 'arcs') {
+    if (angle > ARC_FLATTENING_STEP) return getCircle(point, halfWidth);
+    return [point, a, b];
+  }
+
+  if (options.lineJoin == 'miter' || options.lineJoin == 'miter-clip') {
+    const miterRatio = 1 / Math.cos(angle / 2);
+    if (miterRatio <= STROKE_MITER_LIMIT) {
+      const bisector = add(a, b);
+      const bisectorLength = Math.hypot(
+        bisector.x - 2 * point.x,
+        bisector.y - 2 * point.y
+      );
+      if (bisectorLength > 0) {
+        const direction = scale(
+          subtract(bisector, scale(point, 2)),
+          (halfWidth * miterRatio) / bisectorLength
+        );
+        return [point, a, add(point, direction), b];
+      }
+    }
+  }
+
+  return [point, a, b];
+}
+
+function flattenArc(
+  from: Point,
+  to: Point,
+  rx: number,
+  ry: number,
+  rotation: number,
+  largeArc: boolean,
+  sweep: boolean
+): Point[] {
+  if (rx == 0 || ry == 0 || (from.x == to.x && from.y == to.y)) return [to];
+
+  // endpoint to center parameterization (svg spec, appendix B.2.4)
+  const phi = (rotation * Math.PI) / 180;
+  const cosPhi = Math.cos(phi);
+  const sinPhi = Math.sin(phi);
+  const dx = (from.x - to.x) / 2;
+  const dy = (from.y - to.y) / 2;
+  const x1 = cosPhi * dx + sinPhi * dy;
+  const y1 = -sinPhi * dx + cosPhi * dy;
+
+  rx = Math.abs(rx);
+  ry = Math.abs(ry);
+  const lambda = (x1 * x1) / (rx * rx) + (y1 * y1) / (ry * ry);
+  if (lambda > 1) {
+    rx *= Math.sqrt(lambda);
+    ry *= Math.sqrt(lambda);
+  }
+
+  const numerator = rx * rx * ry * ry - rx * rx * y1 * y1 - ry * ry * x1 * x1;
+  const denominator = rx * rx * y1 * y1 + ry * ry * x1 * x1;
+  let coefficient = Math.sqrt(Math.max(0, numerator / denominator));
+  if (largeArc == sweep) coefficient = -coefficient;
+  const cx1 = (coefficient * rx * y1) / ry;
+  const cy1 = (-coefficient * ry * x1) / rx;
+
+  const cx = cosPhi * cx1 - sinPhi * cy1 + (from.x + to.x) / 2;
+  const cy = sinPhi * cx1 + cosPhi * cy1 + (from.y + to.y) / 2;
+
+  const startAngle = Math.atan2((y1 - cy1) / ry, (x1 - cx1) / rx);
+  let deltaAngle = Math.atan2((-y1 - cy1) / ry, (-x1 - cx1) / rx) - startAngle;
+  if (sweep && deltaAngle < 0) deltaAngle += 2 * Math.PI;
+  if (!sweep && deltaAngle > 0) deltaAngle -= 2 * Math.PI;
+
+  const segments = Math.max(
+    1,
+    Math.ceil(Math.abs(deltaAngle) / ARC_FLATTENING_STEP)
+  );
+  const points: Point[] = [];
+  for (let s = 1; s < segments; s++) {
+    const angle = startAngle + (deltaAngle * s) / segments;
+    const ex = rx * Math.cos(angle);
+    const ey = ry * Math.sin(angle);
+    points.push({
+      x: cosPhi * ex - sinPhi * ey + cx,
+      y: sinPhi * ex + cosPhi * ey + cy,
+    });
+  }
+  points.push(to);
+  return points;
+}
+
+function getCircle(center: Point, radius: number): Polygon {
+  const segments = Math.ceil((2 * Math.PI) / ARC_FLATTENING_STEP);
+  const points: Polygon = [];
+  for (let s = 0; s < segments; s++) {
+    const angle = (2 * Math.PI * s) / segments;
+    points.push({
+      x: center.x + radius * Math.cos(angle),
+      y: center.y + radius * Math.sin(angle),
+    });
+  }
+  return points;
+}
+
+function removeDuplicatePoints(polygon: Polygon): Polygon {
+  const result = polygon.filter((point, i) => {
+    const prev = polygon[(i - 1 + polygon.length) % polygon.length]!;
+    return (
+      Math.abs(point.x - prev.x) > 1e-9 || Math.abs(point.y - prev.y) > 1e-9
+    );
+  });
+  return result;
+}
+
+function orient(polygon: Polygon): Polygon {
+  let area = 0;
+  for (let i = 0; i < polygon.length; i++) {
+    const a = polygon[i]!;
+    const b = polygon[(i + 1) % polygon.length]!;
+    area += a.x * b.y - b.x * a.y;
+  }
+  return area < 0 ? polygon.reverse() : polygon;
+}
+
+function getNormal(from: Point, to: Point, length: number): Point {
+  const dx = to.x - from.x;
+  const dy = to.y - from.y;
+  const norm = Math.hypot(dx, dy) || 1;
+  return { x: (-dy / norm) * length, y: (dx / norm) * length };
+}
+
+function add(a: Point, b: Point): Point {
+  return { x: a.x + b.x, y: a.y + b.y };
+}
+
+function subtract(a: Point, b: Point): Point {
+  return { x: a.x - b.x, y: a.y - b.y };
+}
+
+function scale(a: Point, factor: number): Point {
+  return { x: a.x * factor, y: a.y * factor };
+}
@@ -0,0 +1,28 @@
+export type Point = { x: number; y: number };
+
+// a closed outline; the last point connects back to the first
+export type Polygon = Point[];
+
+// non-premultiplied red, green, blue and alpha, each between 0 and 1
+export type RGBA = [number, number, number, number];
+
+// returns the color of the pixel centered at (x, y)
+export type Paint = (x: number, y: number) => RGBA;
+
+export type BoundingBox = {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+};
+
+export type StrokeOptions = {
+  width: number;
+  lineJoin: 'miter' | 'miter-clip' | 'round' | 'bevel' | 'arcs';
+};
+
+export type ColorMatrix = [
+  [number, number, number],
+  [number, number, number],
+  [number, number, number]
+];
@@ -0,0 +1,275 @@
+import type { ConfigValidation } from '@/generator/types';
+import type Cell from '@/grid/cell';
+import { hashSeed } from '@/randomizer/utils';
+import { SVG_ANIMATIONS, SVG_CUSTOM_ANIMATION, SVG_EASINGS } from './constants';
+import { UnknownEasingError } from './errors';
+import type {
+  SVGAnimation,
+  SVGAnimationConfig,
+  SVGAnimationKeyframe,
+  SVGAttributes,
+  SVGElementNode,
+  SVGNode,
+  SVGStyleRule,
+} from './types';
+
+type AnimatedProperty = Exclude<keyof SVGAnimationKeyframe, 'offset'>;
+
+// the value of a property that a keyframe leaves out, like in css
+const DEFAULT_VALUES: Record<AnimatedProperty, number> = {
+  opacity: 1,
+  scale: 1,
+  rotate: 0,
+  hueRotate: 0,
+};
+
+export function resolveAnimation(
+  config: SVGAnimationConfig
+): SVGAnimation | null {
+  const { preset, keyframes, target, duration, stagger, iterations, easing } =
+    config;
+  if (preset == 'none' && !keyframes.length) return null;
+  const base = preset == 'none' ? SVG_CUSTOM_ANIMATION : SVG_ANIMATIONS[preset];
+  return {
+    ...base,
+    keyframes: keyframes.length ? keyframes : base.keyframes,
+    target: target ?? base.target,
+    duration: duration ?? base.duration,
+    stagger: stagger ?? base.stagger,
+    iterations: iterations ?? base.iterations,
+    easing: easing ?? base.easing,
+  };
+}
+
+export function validateAnimation(
+  config: SVGAnimationConfig,
+  validation: ConfigValidation
+) {
+  const animation = resolveAnimation(config);
+  if (!animation) return;
+  const offsets = animation.keyframes.map(({ offset }) => offset);
+  if (offsets.some((offset, idx) => idx > 0 && offset < offsets[idx - 1]!))
+    validation.errors.push({
+      path: 'svg.animation.keyframes',
+      message: 'must have their offsets in ascending order',
+    });
+  if (parseKeySplines(animation.easing) === undefined)
+    validation.errors.push({
+      path: 'svg.animation.easing',
+      message: `must be ${describeEasings()}`,
+    });
+}
+
+// deterministic for a given seed, and shared by parallel cells so that
+// the animation stays symmetrical
+export function getCellDelay(
+  animation: SVGAnimation,
+  cell: Cell,
+  options: { seed: string; columns: number }
+) {
+  const { stagger } = animation;
+  if (animation.delays == 'column') {
+    return round((cell.col / Math.max(options.columns - 1, 1)) * stagger);
+  }
+  const { row, col } = cell.getSymmetryRepresentative();
+  const [hash] = hashSeed(`${options.seed}:${row}:${col}`);
+  return round((hash / 2 ** 32) * stagger);
+}
+
+// `@keyframes` named `name`, and the rule applying them to `selector`
+export function getAnimationStyleRules(
+  animation: SVGAnimation,
+  options: { name: string; selector: string }
+): SVGStyleRule[] {
+  const { duration, easing, iterations } = animation;
+  return [
+    {
+      selector: `@keyframes ${options.name}`,
+      declarations: {},
+      rules: animation.keyframes.map((frame) => ({
+        selector: `${round(frame.offset * 100)}%`,
+        declarations: getKeyframeDeclarations(frame),
+      })),
+    },
+    {
+      selector: options.selector,
+      declarations: {
+        animation: `${options.name} ${duration}s ${easing} 0s ${iterations} both`,
+        ...(animation.target == 'cell' && {
+          'transform-box': 'fill-box',
+          'transform-origin': 'center',
+        }),
+        ...(animation.target == 'pattern' && { 'transform-origin': '50% 50%' }),
+      },
+    },
+  ];
+}
+
+// wraps `node` in groups animated with smil, scaling and rotating it
+// around `center`; hue rotation needs a filter, returned separately
+export function animateWithSMIL(
+  node: SVGNode,
+  animation: SVGAnimation,
+  options: { delay: number; center: { x: number; y: number }; filterId: string }
+): { node: SVGNode; defs: SVGNode[] } {
+  const { x, y } = options.center;
+  const timing = getSMILTiming(animation, options.delay);
+  const has = (property: AnimatedProperty) =>
+    animation.keyframes.some((frame) => frame[property] !== undefined);
+  const defs: SVGNode[] = [];
+
+  const animations: SVGElementNode[] = [];
+  const attrs: SVGAttributes = {};
+  if (has('opacity')) {
+    const values = getPropertyValues(animation, 'opacity');
+    attrs.opacity = values.initial;
+    animations.push(
+      element('animate', {
+        attributeName: 'opacity',
+        values: values.values,
+        keyTimes: values.keyTimes,
+        ...timing(values.keyTimes),
+      })
+    );
+  }
+  const transforms = (['scale', 'rotate'] as const).filter(has);
+  for (const [idx, property] of transforms.entries()) {
+    const values = getPropertyValues(animation, property);
+    attrs.transform = [attrs.transform, `${property}(${values.initial})`]
+      .filter(Boolean)
+      .join(' ');
+    animations.push(
+      element('animateTransform', {
+        attributeName: 'transform',
+        type: property,
+        values: values.values,
+        keyTimes: values.keyTimes,
+        ...(idx > 0 && { additive: 'sum' }),
+        ...timing(values.keyTimes),
+      })
+    );
+  }
+
+  let result: SVGNode = transforms.length
+    ? element('g', { transform: `translate(${-x} ${-y})` }, [node])
+    : node;
+  if (animations.length) {
+    result = element('g', attrs, [...animations, result]);
+  }
+  if (transforms.length) {
+    result = element('g', { transform: `translate(${x} ${y})` }, [result]);
+  }
+  if (has('hueRotate')) {
+    const values = getPropertyValues(animation, 'hueRotate');
+    defs.push(
+      element(
+        'filter',
+        { id: options.filterId, 'color-interpolation-filters': 'sRGB' },
+        [
+          element(
+            'feColorMatrix',
+            { type: 'hueRotate', values: values.initial },
+            [
+              element('animate', {
+                attributeName: 'values',
+                values: values.values,
+                keyTimes: values.keyTimes,
+                ...timing(values.keyTimes),
+              }),
+            ]
+          ),
+        ]
+      )
+    );
+    result = element('g', { filter: `url(#${options.filterId})` }, [result]);
+  }
+
+  return { node: result, defs };
+}
+
+export function getKeyframeDeclarations(frame: SVGAnimationKeyframe) {
+  const declarations: Record<string, string> = {};
+  const transforms = [];
+  if (frame.scale !== undefined) transforms.push(`scale(${frame.scale})`);
+  if (frame.rotate !== undefined) transforms.push(`rotate(${frame.rotate}deg)`);
+  if (transforms.length) declarations.transform = transforms.join(' ');
+  if (frame.opacity !== undefined) declarations.opacity = `${frame.opacity}`;
+  if (frame.hueRotate !== undefined)
+    declarations.filter = `hue-rotate(${frame.hueRotate}deg)`;
+  return declarations;
+}
+
+// the keyframes of a single property, starting at 0 and ending at 1
+function getPropertyValues(
+  animation: SVGAnimation,
+  property: AnimatedProperty
+) {
+  const frames = animation.keyframes
+    .filter((frame) => frame[property] !== undefined)
+    .map((frame) => ({ offset: frame.offset, value: frame[property]! }));
+  if (frames[0]?.offset !== 0)
+    frames.unshift({ offset: 0, value: DEFAULT_VALUES[property] });
+  if (frames[frames.length - 1]!.offset !== 1)
+    frames.push({ offset: 1, value: DEFAULT_VALUES[property] });
+  return {
+    initial: frames[0]!.value,
+    values: frames.map((frame) => frame.value).join(';'),
+    keyTimes: frames.map((frame) => round(frame.offset)).join(';'),
+  };
+}
+
+export function getSMILTiming(animation: SVGAnimation, delay: number) {
+  const splines = getKeySplines(animation.easing);
+  return (keyTimes: string) => ({
+    dur: `${animation.duration}s`,
+    begin: `${delay}s`,
+    repeatCount:
+      animation.iterations == 'infinite' ? 'indefinite' : animation.iterations,
+    fill: 'freeze',
+    ...(splines && {
+      calcMode: 'spline',
+      keySplines: Array(keyTimes.split(';').length - 1)
+        .fill(splines)
+        .join(';'),
+    }),
+  });
+}
+
+export function getKeySplines(easing: string) {
+  const splines = parseKeySplines(easing);
+  if (splines === undefined)
+    throw new UnknownEasingError(
+      `Unknown animation easing "${easing}" (expected ${describeEasings()})`,
+      easing
+    );
+  return splines;
+}
+
+// null for linear timing, which has no splines, and undefined for an
+// unsupported easing. Only the table's own keys are easings, not the
+// names an object inherits, like `constructor`
+function parseKeySplines(easing: string) {
+  if (Object.hasOwn(SVG_EASINGS, easing)) return SVG_EASINGS[easing]!;
+  const match = easing.match(/^cubic-bezier\(([^)]+)\)$/);
+  const points = match?.[1]!.split(',').map(Number);
+  if (!points || points.length != 4 || points.some(isNaN)) return undefined;
+  return points.join(' ');
+}
+
+function describeEasings() {
+  return `one of: ${Object.keys(SVG_EASINGS).join(
+    ', '
+  )}, or cubic-bezier(x1, y1, x2, y2)`;
+}
+
+function element(
+  tag: string,
+  attrs: SVGAttributes,
+  children: SVGNode[] = []
+): SVGElementNode {
+  return { type: 'element', tag, attrs, children };
+}
+
+function round(n: number) {
+  return +n.toFixed(3);
+}
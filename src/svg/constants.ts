@@ -1 +1,143 @@
+import type {
+  ColorCategory,
+  SVGAnimation,
+  SVGAnimationPreset,
+  SVGPaletteHarmony,
+  SVGTransitionOptions,
+} from './types';
+
 export const SVG_DATA_PREFIX = 'image/svg+xml;charset=utf-8';
+
+export const SVG_CELL_SHAPES = [
+  'square',
+  'circle',
+  'diamond',
+  'hexagon',
+  'triangle',
+  'plus',
+] as const;
+
+export const SVG_COLOR_CATEGORIES: ColorCategory[] = [
+  'background',
+  'cellFill',
+  'cellStroke',
+  'dropShadow',
+];
+
+export const SVG_STYLINGS = ['css', 'attributes'] as const;
+
+export const SVG_ANIMATION_PRESETS = [
+  'none',
+  'reveal',
+  'pulse',
+  'hueCycle',
+  'wave',
+] as const;
+
+export const SVG_ANIMATIONS: Record<
+  Exclude<SVGAnimationPreset, 'none'>,
+  SVGAnimation
+> = {
+  reveal: {
+    keyframes: [
+      { offset: 0, opacity: 0, scale: 0.3 },
+      { offset: 1, opacity: 1, scale: 1 },
+    ],
+    target: 'cell',
+    duration: 0.4,
+    stagger: 0.6,
+    iterations: 1,
+    easing: 'ease-out',
+    delays: 'random',
+  },
+  pulse: {
+    keyframes: [
+      { offset: 0, scale: 1 },
+      { offset: 0.5, scale: 1.06 },
+      { offset: 1, scale: 1 },
+    ],
+    target: 'pattern',
+    duration: 2,
+    stagger: 0,
+    iterations: 'infinite',
+    easing: 'ease-in-out',
+    delays: 'random',
+  },
+  hueCycle: {
+    keyframes: [
+      { offset: 0, hueRotate: 0 },
+      { offset: 1, hueRotate: 360 },
+    ],
+    target: 'pattern',
+    duration: 6,
+    stagger: 0,
+    iterations: 'infinite',
+    easing: 'linear',
+    delays: 'random',
+  },
+  wave: {
+    keyframes: [
+      { offset: 0, scale: 1 },
+      { offset: 0.5, scale: 0.7, opacity: 0.6 },
+      { offset: 1, scale: 1 },
+    ],
+    target: 'cell',
+    duration: 1.2,
+    stagger: 0.6,
+    iterations: 'infinite',
+    easing: 'ease-in-out',
+    delays: 'column',
+  },
+};
+
+// used when there are keyframes but no preset
+export const SVG_CUSTOM_ANIMATION: SVGAnimation = {
+  keyframes: [],
+  target: 'pattern',
+  duration: 1,
+  stagger: 0.5,
+  iterations: 'infinite',
+  easing: 'ease-in-out',
+  delays: 'random',
+};
+
+export const SVG_TRANSITION_DEFAULTS: SVGTransitionOptions = {
+  duration: 0.6,
+  easing: 'ease-in-out',
+};
+
+// control points of the css timing functions, for smil's `keySplines`
+export const SVG_EASINGS: Record<string, string | null> = {
+  linear: null,
+  ease: '0.25 0.1 0.25 1',
+  'ease-in': '0.42 0 1 1',
+  'ease-out': '0 0 0.58 1',
+  'ease-in-out': '0.42 0 0.58 1',
+};
+
+export const SVG_COLOR_MODES = [
+  'uniform',
+  'perCell',
+  'perRow',
+  'perColumn',
+  'perRegion',
+] as const;
+
+export const SVG_PALETTE_HARMONIES = [
+  'complementary',
+  'analogous',
+  'triadic',
+  'monochrome',
+] as const;
+
+// the hues of a harmony, in degrees away from the base color's hue
+export const SVG_PALETTE_HUE_OFFSETS: Record<SVGPaletteHarmony, number[]> = {
+  complementary: [0, 180],
+  analogous: [-30, 0, 30],
+  triadic: [0, 120, 240],
+  monochrome: [0],
+};
+
+export const SVG_COLOR_GENERATORS = ['hue'] as const;
+
+export const SVG_CONTRAST_ALGORITHMS = ['wcag', 'apca'] as const;
@@ -0,0 +1,401 @@
+import type { ConfigValidation } from '@/generator/types';
+import { parseColor } from '@/raster/colors';
+import {
+  generateColor,
+  getColorEntries,
+  getColorGenerator,
+  getDarkColors,
+  getLightColors,
+  getLockedColors,
+  isColorPair,
+  isLockedColor,
+  toLinear,
+  toOKLCH,
+} from './palette';
+import type {
+  ColorCategory,
+  ColorIndices,
+  ColorsByCategory,
+  SVGColor,
+  SVGConfig,
+  SVGContrastAlgorithm,
+  SVGInnerConfig,
+  SVGPickedColors,
+} from './types';
+
+// the contrast of `color` against `background`, as a wcag ratio or an
+// absolute apca lightness contrast. Gradients are as weak as their least
+// contrasting pair of stops
+export function getContrast(
+  color: SVGColor,
+  background: SVGColor,
+  algorithm: SVGContrastAlgorithm
+) {
+  const getContrastOf = algorithm == 'apca' ? getAPCAContrast : getWCAGContrast;
+  let contrast = Infinity;
+  for (const foreground of getPlainColors(color)) {
+    for (const back of getPlainColors(background)) {
+      contrast = Math.min(contrast, getContrastOf(foreground, back));
+    }
+  }
+  return contrast;
+}
+
+// every background that can be picked must leave at least one color that
+// stands out from it, so that building never has to give up
+export function validateContrast(
+  config: SVGConfig,
+  validation: ConfigValidation
+) {
+  if (!config.minContrast) return;
+  if (!validateContrastColors(config, validation)) return;
+  const fail = (message: string) =>
+    validation.errors.push({ path: 'svg.minContrast', message });
+
+  const hasColors = (category: ColorCategory) =>
+    getLightColors(config.colors, category).length > 0;
+  const locked = getContrastCategories(config).filter(
+    (category) => isLockedColor(config, category) && hasColors(category)
+  );
+  const unlocked = getContrastCategories(config).filter(
+    (category) => !isLockedColor(config, category) && hasColors(category)
+  );
+  const backgroundColors = getLightColors(config.colors, 'background');
+  let backgrounds = [...backgroundColors.keys()];
+
+  if (locked.length) {
+    const lockedIdxs = [...getLightColors(config.colors, locked[0]!).keys()];
+    if (isLockedColor(config, 'background')) {
+      backgrounds = lockedIdxs.filter((idx) => {
+        const { colors, indices } = getLockedColors(config, idx);
+        return passesContrast(config, colors, indices, locked);
+      });
+      if (!backgrounds.length) {
+        fail(
+          `none of the locked ${locked.join(
+            ' and '
+          )} colors have a contrast of at least ${describeMinContrast(
+            config
+          )} against the background locked to them`
+        );
+        return;
+      }
+    } else {
+      for (const [background, color] of backgroundColors.entries()) {
+        const passes = lockedIdxs.some((idx) => {
+          const { colors, indices } = getLockedColors(config, idx);
+          return passesContrast(
+            config,
+            { ...colors, background: color },
+            { ...indices, background },
+            locked
+          );
+        });
+        if (!passes) {
+          fail(
+            `no ${describeMissingContrast(config, locked.join(' and '), {
+              colors: { background: color },
+              indices: { background },
+            })}`
+          );
+          return;
+        }
+      }
+    }
+  }
+
+  for (const background of backgrounds) {
+    const color = backgroundColors[background]!;
+    for (const category of unlocked) {
+      const passes = getLightColors(config.colors, category).some(
+        (value, idx) =>
+          passesContrast(
+            config,
+            { [category]: value, background: color },
+            { [category]: idx, background },
+            [category]
+          )
+      );
+      if (!passes) {
+        fail(
+          `no ${describeMissingContrast(config, category, {
+            colors: { background: color },
+            indices: { background },
+          })}`
+        );
+        return;
+      }
+    }
+  }
+}
+
+// replaces the colors that don't stand out enough from the background
+// with the next ones in their lists that do, which keeps the choice
+// deterministic without drawing more random numbers
+export function ensureContrast(
+  config: SVGInnerConfig,
+  picked: SVGPickedColors,
+  lockedIdx: number | undefined
+): SVGPickedColors {
+  if (!config.minContrast) return picked;
+  const colors = { ...picked.colors };
+  const indices = { ...picked.indices };
+  const categories = getContrastCategories(config);
+  const locked = categories.filter(
+    (category) =>
+      isLockedColor(config, category) &&
+      getLightColors(config.colors, category).length > 0
+  );
+
+  if (locked.length && !passesContrast(config, colors, indices, locked)) {
+    const idx = findColorIdx(
+      lockedIdx!,
+      getLightColors(config.colors, locked[0]!).length,
+      (idx) => {
+        const lockedColors = getLockedColors(config, idx);
+        return passesContrast(
+          config,
+          { ...colors, ...lockedColors.colors },
+          { ...indices, ...lockedColors.indices },
+          locked
+        );
+      }
+    );
+    if (idx === null)
+      throw getContrastError(config, locked.join(' and '), { colors, indices });
+    config.inner.logger.debug(
+      `Replaced the locked colors #${lockedIdx} with #${idx} for contrast`
+    );
+    const lockedColors = getLockedColors(config, idx);
+    Object.assign(colors, lockedColors.colors);
+    Object.assign(indices, lockedColors.indices);
+  }
+
+  for (const category of categories) {
+    if (passesContrast(config, colors, indices, [category])) continue;
+    const replacement = findContrastingColor(
+      config,
+      category,
+      { colors, indices },
+      indices[category] ?? 0
+    );
+    if (replacement === null)
+      throw getContrastError(config, category, { colors, indices });
+    config.inner.logger.debug(
+      `Replaced colors.${category} ${describeColor(
+        colors[category]
+      )} with ${describeColor(replacement.color)} for contrast`
+    );
+    colors[category] = replacement.color;
+    if (replacement.idx !== undefined) indices[category] = replacement.idx;
+  }
+  return { colors, indices };
+}
+
+// whether the colors of `categories` stand out from the background, in
+// both color schemes
+export function passesContrast(
+  config: SVGConfig,
+  colors: Partial<ColorsByCategory>,
+  indices: ColorIndices,
+  categories: ColorCategory[]
+) {
+  const dark = { ...colors, ...getDarkColors(config.colors, indices) };
+  return categories.every(
+    (category) =>
+      hasContrast(config, colors[category], colors.background) &&
+      hasContrast(config, dark[category], dark.background)
+  );
+}
+
+// the categories that have to stand out from the background
+// contrast is measured by parsing the colors, which would fail on the ones
+// that aren't supported. Returns whether every color could be parsed
+function validateContrastColors(
+  config: SVGConfig,
+  validation: ConfigValidation
+) {
+  const errorCount = validation.errors.length;
+  const validateColor = (color: SVGColor, path: string) => {
+    const colors =
+      typeof color == 'string'
+        ? [{ value: color, path }]
+        : color.stops.map((stop, idx) => ({
+            value: stop.color,
+            path: `${path}.stops[${idx}].color`,
+          }));
+    for (const { value, path } of colors) {
+      try {
+        parseColor(value);
+      } catch {
+        validation.errors.push({
+          path,
+          message: `"${value}" isn't a supported color`,
+        });
+      }
+    }
+  };
+  const categories = ['background', ...getContrastCategories(config)] as const;
+  for (const category of categories) {
+    for (const [idx, entry] of getColorEntries(
+      config.colors,
+      category
+    ).entries()) {
+      const path = `svg.colors.${category}[${idx}]`;
+      if (isColorPair(entry)) {
+        validateColor(entry.light, `${path}.light`);
+        validateColor(entry.dark, `${path}.dark`);
+      } else {
+        validateColor(entry, path);
+      }
+    }
+  }
+  return validation.errors.length == errorCount;
+}
+
+export function getContrastCategories(config: SVGConfig): ColorCategory[] {
+  return config.strokeWidth > 0 ? ['cellFill', 'cellStroke'] : ['cellFill'];
+}
+
+// the first index from `start` on, wrapping around, that `passes`
+export function findColorIdx(
+  start: number,
+  length: number,
+  passes: (idx: number) => boolean
+) {
+  for (let i = 0; i < length; i++) {
+    const idx = (start + i) % length;
+    if (passes(idx)) return idx;
+  }
+  return null;
+}
+
+export function getContrastError(
+  config: SVGConfig,
+  category: string,
+  picked: {
+    colors: Pick<ColorsByCategory, 'background'>;
+    indices: ColorIndices;
+  }
+) {
+  return new Error(`No ${describeMissingContrast(config, category, picked)}`);
+}
+
+function describeMissingContrast(
+  config: SVGConfig,
+  category: string,
+  picked: {
+    colors: Pick<ColorsByCategory, 'background'>;
+    indices: ColorIndices;
+  }
+) {
+  const { background } = picked.colors;
+  const dark = getDarkColors(config.colors, {
+    background: picked.indices.background,
+  }).background;
+  const backgrounds = [background, ...(dark ? [dark] : [])]
+    .map(describeColor)
+    .join(' and its dark variant ');
+  return `${category} color has a contrast of at least ${describeMinContrast(
+    config
+  )} against the background ${backgrounds}`;
+}
+
+export function describeColor(color: SVGColor) {
+  return typeof color == 'string'
+    ? `"${color}"`
+    : `${color.type} (${color.stops.map((stop) => stop.color).join(', ')})`;
+}
+
+// the first color from `start` on (or, for generated colors, the first
+// hue) that stands out from the picked background
+function findContrastingColor(
+  config: SVGConfig,
+  category: ColorCategory,
+  picked: SVGPickedColors,
+  start: number
+): { color: SVGColor; idx?: number } | null {
+  const { background } = picked.colors;
+  const indices = { background: picked.indices.background };
+  const generator = getColorGenerator(config.colors, category);
+  if (generator) {
+    const { h } = toOKLCH(picked.colors[category] as string);
+    for (let step = 1; step < 12; step++) {
+      const color = generateColor(generator, (h + step * 30) % 360);
+      if (
+        passesContrast(config, { [category]: color, background }, indices, [
+          category,
+        ])
+      )
+        return { color };
+    }
+    return null;
+  }
+  const colors = getLightColors(config.colors, category);
+  const idx = findColorIdx(start, colors.length, (idx) =>
+    passesContrast(
+      config,
+      { [category]: colors[idx], background },
+      { ...indices, [category]: idx },
+      [category]
+    )
+  );
+  return idx === null ? null : { color: colors[idx]!, idx };
+}
+
+function hasContrast(
+  config: SVGConfig,
+  color?: SVGColor,
+  background?: SVGColor
+) {
+  const { minContrast, contrastAlgorithm } = config;
+  if (!minContrast || color === undefined || background === undefined)
+    return true;
+  return getContrast(color, background, contrastAlgorithm) >= minContrast;
+}
+
+function describeMinContrast(config: SVGConfig) {
+  return `${config.minContrast} (${config.contrastAlgorithm})`;
+}
+
+function getPlainColors(color: SVGColor) {
+  return typeof color == 'string'
+    ? [color]
+    : color.stops.map((stop) => stop.color);
+}
+
+// https://www.w3.org/TR/WCAG21/#dfn-contrast-ratio
+function getWCAGContrast(color: string, background: string) {
+  const a = getRelativeLuminance(color);
+  const b = getRelativeLuminance(background);
+  return (Math.max(a, b) + 0.05) / (Math.min(a, b) + 0.05);
+}
+
+function getRelativeLuminance(color: string) {
+  const [r, g, b] = parseColor(color).map(toLinear) as [number, number, number];
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+}
+
+// apca 0.0.98G, https://github.com/Myndex/apca-w3
+function getAPCAContrast(color: string, background: string) {
+  const text = getAPCALuminance(color);
+  const back = getAPCALuminance(background);
+  if (Math.abs(back - text) < 0.0005) return 0;
+
+  let contrast;
+  if (back > text) {
+    const s = (back ** 0.56 - text ** 0.57) * 1.14;
+    contrast = s < 0.1 ? 0 : s - 0.027;
+  } else {
+    const s = (back ** 0.65 - text ** 0.62) * 1.14;
+    contrast = s > -0.1 ? 0 : s + 0.027;
+  }
+  return Math.abs(contrast * 100);
+}
+
+function getAPCALuminance(color: string) {
+  const [r, g, b] = parseColor(color);
+  const y = 0.2126729 * r ** 2.4 + 0.7151522 * g ** 2.4 + 0.072175 * b ** 2.4;
+  // soft clamps the black level
+  return y < 0.022 ? y + (0.022 - y) ** 1.414 : y;
+}
@@ -0,0 +1,125 @@
+import type {
+  SVGAccessibilityConfig,
+  SVGAttributes,
+  SVGBuildContext,
+  SVGNode,
+  SVGStyleRule,
+} from './types';
+import { escapeCSSIdentifier, formatTemplate } from './utils';
+
+export function serializeSVGNode(node: SVGNode): string {
+  switch (node.type) {
+    case 'root':
+      return `<svg${formatAttributes(node.attrs)}>${serializeSVGNodes(
+        node.children
+      )}</svg>`;
+    case 'style':
+      return `<style>${node.rules.map(serializeStyleRule).join('')}</style>`;
+    case 'defs':
+      return `<defs>${serializeSVGNodes(node.children)}</defs>`;
+    case 'gradient': {
+      const attrs = formatAttributes({ id: node.id, ...node.attrs });
+      const stops = node.stops
+        .map(
+          (stop) =>
+            `<stop${formatAttributes({
+              offset: stop.offset,
+              'stop-color': stop.color,
+              'stop-opacity': stop.opacity ?? 1,
+            })} />`
+        )
+        .join('');
+      return `<${node.tag}${attrs} >${stops}</${node.tag}>`;
+    }
+    case 'rect':
+    case 'path':
+      return `<${node.type}${formatAttributes(node.attrs)} />`;
+    case 'element': {
+      const attrs = formatAttributes(node.attrs);
+      if (!node.children.length) return `<${node.tag}${attrs} />`;
+      return `<${node.tag}${attrs}>${serializeSVGNodes(node.children)}</${
+        node.tag
+      }>`;
+    }
+    case 'text':
+      return escapeXML(node.value);
+  }
+}
+
+export function serializeSVGNodes(nodes: SVGNode[]) {
+  return nodes.map(serializeSVGNode).join('');
+}
+
+export function getAccessibilityAttributes(
+  config: SVGAccessibilityConfig
+): SVGAttributes {
+  const { title, description, decorative } = config;
+  if (decorative) return { 'aria-hidden': 'true' };
+  if (title || description) return { role: 'img' };
+  return {};
+}
+
+// the `<title>` and `<desc>` elements, with the templates filled in
+export function getAccessibilityNodes(
+  config: SVGAccessibilityConfig,
+  context: SVGBuildContext
+): SVGNode[] {
+  const { title, description, decorative } = config;
+  if (decorative) return [];
+  const values = { seed: context.seed, name: context.name ?? context.seed };
+  const nodes: SVGNode[] = [];
+  const addTextElement = (tag: string, template: string) =>
+    nodes.push({
+      type: 'element',
+      tag,
+      attrs: {},
+      children: [{ type: 'text', value: formatTemplate(template, values) }],
+    });
+  if (title) addTextElement('title', title);
+  if (description) addTextElement('desc', description);
+  return nodes;
+}
+
+// confines the rules to the descendants of the root element with the
+// class `scope`, so that the styles of avatars inlined into the same page
+// don't apply to each other. `:root` would be the page's `<html>` element
+// there, so the variables set on it go to the root element itself
+export function scopeStyleRules(
+  rules: SVGStyleRule[],
+  scope: string
+): SVGStyleRule[] {
+  const selector = `.${escapeCSSIdentifier(scope)}`;
+  return rules.map((rule) => {
+    if (rule.selector.startsWith('@keyframes')) return rule;
+    if (rule.selector.startsWith('@'))
+      return { ...rule, rules: scopeStyleRules(rule.rules ?? [], scope) };
+    return {
+      ...rule,
+      selector:
+        rule.selector == ':root' ? selector : `${selector} ${rule.selector}`,
+    };
+  });
+}
+
+function serializeStyleRule(rule: SVGStyleRule): string {
+  let css = `${rule.selector}{`;
+  for (const [property, value] of Object.entries(rule.declarations))
+    css += `${property}: ${value};`;
+  css += (rule.rules ?? []).map(serializeStyleRule).join('');
+  return css + '}';
+}
+
+function formatAttributes(attrs: SVGAttributes) {
+  let res = '';
+  for (const [key, value] of Object.entries(attrs))
+    res += ` ${key}="${escapeXML(String(value))}"`;
+  return res;
+}
+
+function escapeXML(value: string) {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
@@ -0,0 +1,9 @@
+export class UnknownEasingError extends Error {
+  readonly easing: string;
+
+  constructor(message: string, easing: string) {
+    super(message);
+    this.name = 'UnknownEasingError';
+    this.easing = easing;
+  }
+}
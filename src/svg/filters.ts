@@ -0,0 +1,239 @@
+import { parseAngle } from '@/raster/colors';
+import {
+  clampAmount,
+  getGrayscaleMatrix,
+  getHueRotateMatrix,
+  getSaturateMatrix,
+  getSepiaMatrix,
+  parseAmount,
+  parseLength,
+} from '@/raster/filters';
+import type { BoundingBox, ColorMatrix } from '@/raster/types';
+import { SVG_DATA_PREFIX } from './constants';
+import { serializeSVGNode } from './document';
+import type {
+  ColorsByCategory,
+  SVGAttributes,
+  SVGColor,
+  SVGConfig,
+  SVGElementNode,
+  SVGGradientColor,
+} from './types';
+import { isEmptyObject } from './utils';
+
+// like in css, a drop shadow without a color invalidates the whole filter
+export function hasValidFilters(
+  filters: SVGConfig['filters'],
+  colors: ColorsByCategory
+) {
+  return (
+    !isEmptyObject(filters) &&
+    (!('dropShadow' in filters) || !!colors.dropShadow)
+  );
+}
+
+// builds a `<filter>` out of filter primitives that does the same as the
+// css filter functions, for renderers that don't support the latter
+export function getFilterNode(
+  id: string,
+  filters: SVGConfig['filters'],
+  options: {
+    region: BoundingBox;
+    dropShadowColor?: SVGColor;
+    // the bounding box of the filtered shape, which gradient shadows span
+    bbox: BoundingBox;
+  }
+): SVGElementNode {
+  const { region } = options;
+  const children: SVGElementNode[] = [];
+  let input = 'SourceGraphic';
+  let step = 0;
+
+  for (const [key, filter] of Object.entries(filters)) {
+    const result = `step-${++step}`;
+    if (key == 'dropShadow') {
+      const [x, y, blur] = filter as [string, string, string];
+      children.push(
+        ...getDropShadowPrimitives({
+          input,
+          result,
+          dx: parseLength(x),
+          dy: parseLength(y),
+          // the blur radius of a shadow is twice its standard deviation
+          deviation: parseLength(blur) / 2,
+          color: options.dropShadowColor!,
+          bbox: options.bbox,
+        })
+      );
+    } else {
+      const primitive = getFilterPrimitive(key, filter as string);
+      if (!primitive) continue;
+      primitive.attrs = { in: input, ...primitive.attrs, result };
+      children.push(primitive);
+    }
+    input = result;
+  }
+
+  return element(
+    'filter',
+    {
+      id,
+      filterUnits: 'userSpaceOnUse',
+      x: round(region.x),
+      y: round(region.y),
+      width: round(region.width),
+      height: round(region.height),
+      // css filter functions operate on gamma-encoded colors
+      'color-interpolation-filters': 'sRGB',
+    },
+    children
+  );
+}
+
+function getFilterPrimitive(key: string, value: string) {
+  switch (key) {
+    case 'blur':
+      return element('feGaussianBlur', {
+        stdDeviation: round(parseLength(value)),
+      });
+    case 'brightness':
+      return componentTransfer(['R', 'G', 'B'], {
+        type: 'linear',
+        slope: round(parseAmount(value)),
+      });
+    case 'contrast': {
+      const amount = parseAmount(value);
+      return componentTransfer(['R', 'G', 'B'], {
+        type: 'linear',
+        slope: round(amount),
+        intercept: round(0.5 - 0.5 * amount),
+      });
+    }
+    case 'grayscale':
+      return colorMatrix(getGrayscaleMatrix(clampAmount(value)));
+    case 'hueRotate':
+      return colorMatrix(getHueRotateMatrix(parseAngle(value || '0')));
+    case 'invert': {
+      const amount = clampAmount(value);
+      return componentTransfer(['R', 'G', 'B'], {
+        type: 'table',
+        tableValues: `${round(amount)} ${round(1 - amount)}`,
+      });
+    }
+    case 'opacity':
+      return componentTransfer(['A'], {
+        type: 'table',
+        tableValues: `0 ${round(clampAmount(value))}`,
+      });
+    case 'saturate':
+      return colorMatrix(getSaturateMatrix(parseAmount(value)));
+    case 'sepia':
+      return colorMatrix(getSepiaMatrix(clampAmount(value)));
+  }
+}
+
+// the markup equivalent of `drop-shadow()` from the filter effects spec,
+// without relying on `<feDropShadow>`; a gradient shadow is painted by an
+// image of the gradient spanning the offset shape, instead of a flood
+function getDropShadowPrimitives(options: {
+  input: string;
+  result: string;
+  dx: number;
+  dy: number;
+  deviation: number;
+  color: SVGColor;
+  bbox: BoundingBox;
+}) {
+  const { input, result, color, bbox } = options;
+  const paint =
+    typeof color == 'string'
+      ? element('feFlood', { 'flood-color': color })
+      : element('feImage', {
+          href: getGradientImageURL(color, bbox),
+          x: round(bbox.x + options.dx),
+          y: round(bbox.y + options.dy),
+          width: round(bbox.width),
+          height: round(bbox.height),
+          preserveAspectRatio: 'none',
+        });
+  return [
+    element('feGaussianBlur', {
+      in: input,
+      stdDeviation: round(options.deviation),
+      result: `${result}-blur`,
+    }),
+    element('feOffset', {
+      dx: round(options.dx),
+      dy: round(options.dy),
+      result: `${result}-offset`,
+    }),
+    paint,
+    element('feComposite', {
+      in2: `${result}-offset`,
+      operator: 'in',
+      result: `${result}-shadow`,
+    }),
+    element('feMerge', { result }, [
+      element('feMergeNode', { in: `${result}-shadow` }),
+      element('feMergeNode', { in: input }),
+    ]),
+  ];
+}
+
+// a standalone svg, covering `bbox` in the same coordinates as the shape,
+// so that gradients in user space units keep their position
+function getGradientImageURL(color: SVGGradientColor, bbox: BoundingBox) {
+  const { x, y, width, height } = bbox;
+  const svg = serializeSVGNode({
+    type: 'root',
+    attrs: {
+      xmlns: 'http://www.w3.org/2000/svg',
+      width: round(width),
+      height: round(height),
+      viewBox: [x, y, width, height].map(round).join(' '),
+      preserveAspectRatio: 'none',
+    },
+    children: [
+      {
+        type: 'gradient',
+        tag: color.type,
+        id: 'paint',
+        attrs: { ...color.attrs },
+        stops: color.stops,
+      },
+      {
+        type: 'rect',
+        attrs: { x, y, width, height, fill: 'url(#paint)' },
+      },
+    ],
+  });
+  return `data:${SVG_DATA_PREFIX},${encodeURIComponent(svg)}`;
+}
+
+function colorMatrix(m: ColorMatrix) {
+  const rows = m.map((row) => [...row.map(round), 0, 0].join(' '));
+  return element('feColorMatrix', {
+    type: 'matrix',
+    values: [...rows, '0 0 0 1 0'].join(' '),
+  });
+}
+
+function componentTransfer(channels: string[], attrs: SVGAttributes) {
+  return element(
+    'feComponentTransfer',
+    {},
+    channels.map((channel) => element(`feFunc${channel}`, attrs))
+  );
+}
+
+function element(
+  tag: string,
+  attrs: SVGAttributes,
+  children: SVGElementNode[] = []
+): SVGElementNode {
+  return { type: 'element', tag, attrs, children };
+}
+
+function round(n: number) {
+  return +n.toFixed(4);
+}
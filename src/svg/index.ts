@@ -1,60 +1,285 @@
 let fs: typeof import('fs');
 
 import type Cell from '@/grid/cell';
-import type { CellCoordinates } from '@/grid/cell/types';
+import { CELL_NEIGHBOR_CORNERS } from '@/grid/cell/constants';
+import type {
+  CellCoordinates,
+  CellNeighborCorner,
+  CellNeighborSide,
+} from '@/grid/cell/types';
+import { hashSeed } from '@/randomizer/utils';
+import { getBoundingBox, parsePathData } from '@/raster/path';
+import type { Point } from '@/raster/types';
 import path from 'path';
 import { SVG_DATA_PREFIX } from './constants';
+import {
+  animateWithSMIL,
+  getAnimationStyleRules,
+  getCellDelay,
+  resolveAnimation,
+} from './animation';
+import {
+  getAccessibilityAttributes,
+  getAccessibilityNodes,
+  scopeStyleRules,
+  serializeSVGNode,
+} from './document';
+import {
+  describeColor,
+  ensureContrast,
+  findColorIdx,
+  getContrastCategories,
+  getContrastError,
+  passesContrast,
+} from './contrast';
+import { getFilterNode, hasValidFilters } from './filters';
+import {
+  generateColor,
+  getColorEntries,
+  getColorGenerator,
+  getDarkColorOverrides,
+  getDarkColors,
+  getDarkStyleRules,
+  getGroupColorCategories,
+  getGroupDarkColors,
+  getLightColors,
+  getLockedCategories,
+  isColorPair,
+  isLockedColor,
+} from './palette';
+import { rasterize } from './raster';
+import {
+  getTransitionBackgroundNode,
+  getTransitionCellNodes,
+  getTransitionStyleRules,
+  validateTransitionOptions,
+} from './transition';
 import {
   ColorCategory,
+  ColorIndices,
   ColorsByCategory,
-  GradientSVGTagMap,
+  GradientSVGNodeMap,
+  SVGAnimation,
+  SVGAttributes,
+  SVGBuildContext,
   SVGCalculatedValues,
   SVGColor,
+  SVGColorGenerator,
+  SVGColorTrait,
+  SVGDarkColorOverride,
+  SVGDocument,
+  SVGElementNode,
+  SVGFileFormat,
+  SVGFrame,
   SVGGradientColor,
+  SVGGradientNode,
   SVGGradientTag,
   SVGInnerConfig,
+  SVGNode,
+  SVGPathNode,
+  SVGPattern,
+  SVGPickedColors,
+  SVGStyleNode,
+  SVGStyleRule,
+  SVGTransitionOptions,
   Stop,
 } from './types';
-import { isEmptyObject, toTrainCase } from './utils';
+import {
+  drawCellShapePath,
+  getCellShapeLattice,
+  getLatticeCellPosition,
+  getLatticePatternSize,
+} from './shapes';
+import { escapeCSSIdentifier, isEmptyObject, toTrainCase } from './utils';
 
 class SVG {
-  private string: string = '';
+  private tree: SVGDocument | null = null;
+  private colors: ColorsByCategory | null = null;
+  private patterns: SVGPattern[] = [];
+  private idPrefix: string = '';
   private readonly config: Readonly<SVGInnerConfig>;
   private readonly calculated: Readonly<SVGCalculatedValues>;
+  private readonly animation: Readonly<SVGAnimation> | null;
 
   constructor(config: SVGInnerConfig) {
     this.config = config;
-    this.validateConfig();
     this.calculated = this.getCalculatedValues();
+    this.animation = resolveAnimation(this.config.animation);
   }
 
-  buildFrom(cells: Iterable<Cell>) {
-    const backgroundWH = this.calculated.backgroundWH.toFixed(2);
-    const colors = this.getAllColors();
-    const gradientTags = this.getGradientSVGTags(colors);
-
-    const svgEls: string[] = [
-      `<svg xmlns="http://www.w3.org/2000/svg" width="${backgroundWH}" height="${backgroundWH}" viewbox="0 0 ${backgroundWH} ${backgroundWH}">`,
-      `<style>${this.formatCSS(colors)}</style>`,
-      gradientTags.background,
-      gradientTags.cellFill,
-      gradientTags.cellStroke,
-      `<rect class="background" />`,
-      `<path class="pattern" d="${this.drawCompletePath(cells)}" />`,
-      '</svg>',
+  buildFrom(cells: Iterable<Cell>, context: SVGBuildContext) {
+    this.idPrefix = this.getIdPrefix(context);
+    const picked = this.getAllColors();
+    const { colors } = picked;
+    const gradientNodes = this.getGradientSVGNodes(colors);
+    const patterns = this.drawPatterns([...cells], picked);
+    const darkOverrides = getDarkColorOverrides(this.config, picked, patterns);
+    const animationDefs: SVGNode[] = [];
+    const patternNodes = this.getAnimatedPatternNodes(
+      patterns.map((pattern, idx) =>
+        this.getPatternNode(pattern, idx, context, animationDefs)
+      ),
+      animationDefs
+    );
+
+    this.tree = this.getRootNode([
+      ...getAccessibilityNodes(this.config.inner.accessibility, context),
+      this.usesCSS()
+        ? this.getStyleNode(colors, [
+            ...getDarkStyleRules(darkOverrides, {
+              getDeclarations: ({ colors, idSuffix }, priority) =>
+                this.getColorDeclarations(colors, idSuffix, priority),
+              getPatternClass: (idx) =>
+                escapeCSSIdentifier(this.getPatternClass(idx)),
+            }),
+            ...this.getAnimationStyleRules(),
+          ])
+        : null,
+      gradientNodes.background,
+      gradientNodes.cellFill,
+      gradientNodes.cellStroke,
+      ...this.getPatternGradientNodes(patterns),
+      ...this.getDarkGradientNodes(darkOverrides),
+      ...(this.usesFilterElements()
+        ? this.getPatternFilterNodes(patterns)
+        : []),
+      ...animationDefs,
+      this.getBackgroundNode(colors),
+      ...patternNodes,
+    ]);
+    this.colors = colors;
+    this.patterns = patterns;
+  }
+
+  // the colors and paths of the grid's current state, split by cell, for
+  // `buildTransition`; picks colors in the same order as `buildFrom`
+  drawFrame(cells: Iterable<Cell>): SVGFrame {
+    const picked = this.getAllColors();
+    return { ...picked, patterns: this.drawPatterns([...cells], picked, true) };
+  }
+
+  // the colors of a frame, along with where they are in their lists
+  describeColors(
+    frame: SVGPickedColors
+  ): Partial<Record<ColorCategory, SVGColorTrait>> {
+    const { colors, indices } = frame;
+    const dark = getDarkColors(this.config.colors, indices);
+    const traits: Partial<Record<ColorCategory, SVGColorTrait>> = {};
+    for (const category of this.colorCategories) {
+      const value = colors[category];
+      if (value === undefined) continue;
+      traits[category] = {
+        index: indices[category] ?? null,
+        value,
+        ...(dark[category] !== undefined && { dark: dark[category] }),
+      };
+    }
+    return traits;
+  }
+
+  // morphs `from` into `to`: cells filled in both change their colors,
+  // while the others grow in or shrink out. Rasterizing draws `to`
+  buildTransition(
+    from: SVGFrame,
+    to: SVGFrame,
+    options: SVGTransitionOptions,
+    context: SVGBuildContext
+  ) {
+    validateTransitionOptions(options);
+    this.idPrefix = this.getIdPrefix(context);
+    const gradientNodes = this.getGradientSVGNodes(to.colors);
+    const extraGradientNodes = new Map<SVGGradientColor, SVGGradientNode>();
+    const paint = (category: ColorCategory, color?: SVGColor) => {
+      if (!color) return 'none';
+      if (!this.isGradientColor(color)) return color;
+      if (color === to.colors[category])
+        return `url(#${this.getGradientId(category)})`;
+      let node = extraGradientNodes.get(color);
+      if (!node) {
+        node = this.getGradientNode({
+          tag: color.type,
+          attrs: color.attrs,
+          stops: color.stops,
+          category,
+          idSuffix: `-${extraGradientNodes.size + 1}`,
+        });
+        extraGradientNodes.set(color, node);
+      }
+      return `url(#${node.id})`;
+    };
+    const hasStroke =
+      this.config.strokeWidth > 0 &&
+      !!(from.colors.cellStroke || to.colors.cellStroke);
+    const background: [string, string] = [
+      paint('background', from.colors.background),
+      paint('background', to.colors.background),
     ];
 
-    const svg = svgEls.join('');
+    const cellNodes = getTransitionCellNodes(from, to, {
+      ...options,
+      paint,
+      hasStroke,
+      usesCSS: this.usesCSS(),
+      getName: (name) => this.getId(name),
+    });
 
-    this.string = svg;
+    // filters apply to the whole pattern, with the colors of `to`
+    const filterPattern: SVGPattern = {
+      pathData: to.patterns.map((pattern) => pattern.pathData).join(''),
+      colors: to.colors,
+      indices: to.indices,
+    };
+    const transitionRules = getTransitionStyleRules({
+      ...options,
+      getName: (name) => escapeCSSIdentifier(this.getId(name)),
+      background,
+      hasStroke,
+    });
+
+    this.tree = this.getRootNode([
+      ...getAccessibilityNodes(this.config.inner.accessibility, context),
+      this.usesCSS() ? this.getStyleNode(to.colors, transitionRules) : null,
+      gradientNodes.background,
+      gradientNodes.cellFill,
+      gradientNodes.cellStroke,
+      ...extraGradientNodes.values(),
+      ...(this.usesFilterElements()
+        ? this.getPatternFilterNodes([filterPattern])
+        : []),
+      getTransitionBackgroundNode(background, {
+        ...options,
+        usesCSS: this.usesCSS(),
+      }),
+      {
+        type: 'element',
+        tag: 'g',
+        attrs: {
+          class: 'pattern',
+          ...(!this.usesCSS() &&
+            this.getTransitionPatternAttributes(filterPattern, hasStroke)),
+        },
+        children: cellNodes,
+      },
+    ]);
+    this.colors = to.colors;
+    this.patterns = to.patterns;
+  }
+
+  /**
+   * The document tree of the last built avatar. It can be changed in place
+   * (e.g. to add a `<title>` or extra layers) before calling `toString` or
+   * any other method that serializes it. Rasterizing ignores such changes.
+   */
+  get document(): SVGDocument | null {
+    return this.tree;
   }
 
   toString() {
-    return this.string;
+    return this.tree ? serializeSVGNode(this.tree) : '';
   }
 
   toURLEncodedString(options: { withPrefix: boolean } = { withPrefix: false }) {
-    const encodedString = encodeURIComponent(this.string);
+    const encodedString = encodeURIComponent(this.toString());
     if (options.withPrefix) {
       return `data:${SVG_DATA_PREFIX},${encodedString}`;
     } else {
@@ -67,23 +292,37 @@ class SVG {
   }
 
   get _lockedColors(): ColorCategory[] {
-    if (this.config.lockColors == 'all') {
-      return this.colorCategories;
-    } else {
-      return this.config.lockColors;
-    }
+    return getLockedCategories(this.config);
   }
 
   async toBuffer() {
     return Buffer.from(this.toString());
   }
 
-  async writeFile(filename: string) {
+  async toPNG(options: { size?: number } = {}) {
+    if (!this.colors)
+      throw new Error('An avatar must be built before it can be rasterized');
+    return rasterize(this.config, this.calculated, {
+      background: this.colors.background,
+      patterns: this.patterns,
+      size: options.size ?? Math.round(this.calculated.backgroundWH),
+    }).toPNG();
+  }
+
+  async writeFile(
+    filename: string,
+    options: { format?: SVGFileFormat; size?: number } = {}
+  ) {
     fs ??= await import('fs');
-    filename = `${filename.replace(/\.svg$/, '')}.svg`;
+    const format = options.format ?? 'svg';
+    filename = `${filename.replace(new RegExp(`\\.${format}$`), '')}.${format}`;
     const dirname = path.dirname(filename);
     if (!fs.existsSync(dirname)) fs.mkdirSync(dirname);
-    fs.writeFileSync(filename, this.toString());
+    if (format == 'png') {
+      fs.writeFileSync(filename, await this.toPNG({ size: options.size }));
+    } else {
+      fs.writeFileSync(filename, this.toString());
+    }
   }
 
   downloadFile(filename: string) {
@@ -99,148 +338,217 @@ class SVG {
     URL.revokeObjectURL(url);
   }
 
-  private validateConfig() {
-    this.validateCellRounding();
-    this.validateColorArrays();
-    this.validateLockedColorArrays();
+  private pickColorIdx(category: ColorCategory) {
+    const colors = this.getColorsFromCategory(category);
+
+    const idx = this.config.inner.colorIdxPicker({
+      category,
+      colors,
+    });
+    this.config.inner.logger.debug(
+      `Picked colors.${category}[${idx}] (${describeColor(colors[idx]!)})`
+    );
+    return idx;
   }
 
-  private validateCellRounding() {
-    const { inner, outer } = this.config.cellRounding;
-    if (inner < 0 || inner > 1 || outer < 0 || outer > 1)
-      throw new Error(
-        'Inner and outer rounding should both be numbers between 0 and 1'
-      );
+  private getColorsFromCategory(category: ColorCategory): SVGColor[] {
+    return getLightColors(this.config.colors, category);
   }
 
-  private validateColorArrays() {
-    const { colors, strokeWidth, filters } = this.config;
-    if (colors.background?.length == 0 || colors.cellFill?.length == 0)
-      throw new Error(
-        'colors.cellFill and colors.background must be arrays of length greater than 0'
-      );
-    if (strokeWidth > 0 && colors.cellStroke?.length == 0) {
-      console.log(
-        "⚠️  strokeWidth won't have any effect if colors.cellStroke is not specified"
-      );
-    }
-    if (!strokeWidth && colors.cellStroke?.length) {
-      console.log(
-        "⚠️  colors.cellStroke won't have any effect if strokeWidth is 0 or unspecified"
-      );
-    }
-    if ('dropShadow' in filters && colors.dropShadow?.length == 0) {
-      console.log(
-        "⚠️  filters.dropShadow won't have any effect if colors.dropShadow is not specified"
-      );
-    } else if (colors.dropShadow?.length && !('dropShadow' in filters)) {
-      console.log(
-        "⚠️  colors.dropShadow won't have any effect if filters.dropShadow is not specified"
-      );
+  private generateColor(category: ColorCategory, generator: SVGColorGenerator) {
+    // tenths of a degree, for more distinct hues than there are seeds to
+    // tell apart at a glance
+    const hue = this.config.inner.numberPicker(0, 3599) / 10;
+    this.config.inner.logger.debug(
+      `Generated colors.${category} at hue ${hue}`
+    );
+    return generateColor(generator, hue);
+  }
+
+  private hasColorsInCategory(category: ColorCategory) {
+    return this.getColorsFromCategory(category).length > 0;
+  }
+
+  private isGradientColor(color: SVGColor): color is SVGGradientColor {
+    return typeof color !== 'string';
+  }
+
+  private getRootNode(children: Array<SVGNode | null>): SVGDocument {
+    const backgroundWH = this.calculated.backgroundWH.toFixed(2);
+    return {
+      type: 'root',
+      attrs: {
+        xmlns: 'http://www.w3.org/2000/svg',
+        width: backgroundWH,
+        height: backgroundWH,
+        viewbox: `0 0 ${backgroundWH} ${backgroundWH}`,
+        // what the style rules are scoped to
+        ...(this.scopesStyles() && { class: this.idPrefix }),
+        ...getAccessibilityAttributes(this.config.inner.accessibility),
+      },
+      children: children.filter((node): node is SVGNode => node !== null),
+    };
+  }
+
+  private getStyleNode(
+    colors: ColorsByCategory,
+    extraRules: SVGStyleRule[]
+  ): SVGStyleNode {
+    const filter = this.usesFilterElements()
+      ? hasValidFilters(this.config.filters, colors) &&
+        `url(#${this.getFilterId(colors)})`
+      : this.formatCSSFilters();
+    const rules: SVGStyleRule[] = [
+      {
+        selector: ':root',
+        declarations: {
+          '--color-background': this.formatCSSColor('background', colors),
+          '--color-cell-fill': this.formatCSSColor('cellFill', colors),
+          '--color-cell-stroke': this.formatCSSColor('cellStroke', colors),
+          ...(typeof colors.dropShadow == 'string' && {
+            '--color-cell-drop-shadow': colors.dropShadow,
+          }),
+          '--stroke-width': `${this.config.strokeWidth}px`,
+          '--ptn-width': `${this.calculated.ptnWidth}px`,
+          '--ptn-height': `${this.calculated.ptnHeight}px`,
+        },
+      },
+      {
+        selector: '.background',
+        declarations: {
+          width: '100%',
+          height: '100%',
+          fill: 'var(--color-background)',
+        },
+      },
+      {
+        selector: '.pattern',
+        declarations: {
+          fill: 'var(--color-cell-fill)',
+          stroke: 'var(--color-cell-stroke)',
+          'stroke-width': 'var(--stroke-width)',
+          'stroke-linejoin': this.config.strokeLineJoin,
+          'paint-order': this.config.paintOrder,
+          ...(filter && { filter }),
+          '--transform-x':
+            'calc((100% - var(--ptn-width) + var(--stroke-width)) / 2)',
+          '--transform-y':
+            'calc((100% - var(--ptn-height) + var(--stroke-width)) / 2)',
+          transform: 'translate(var(--transform-x), var(--transform-y))',
+        },
+      },
+      ...extraRules,
+    ];
+    return {
+      type: 'style',
+      rules: this.scopesStyles()
+        ? scopeStyleRules(rules, this.idPrefix)
+        : rules,
+    };
+  }
+
+  private getColorDeclarations(
+    colors: Partial<ColorsByCategory>,
+    gradientIdSuffix: string,
+    priority = ''
+  ) {
+    const declarations: Record<string, string> = {};
+    for (const category of Object.keys(colors) as ColorCategory[]) {
+      // gradient shadows, and every shadow next to them, are drawn by
+      // filter elements
+      if (
+        category == 'dropShadow' &&
+        (this.usesFilterElements() || typeof colors.dropShadow != 'string')
+      )
+        continue;
+      declarations[this.getCSSColorVariable(category)] =
+        this.formatCSSColor(category, colors, gradientIdSuffix) + priority;
     }
+    return declarations;
   }
 
-  private validateLockedColorArrays() {
-    let lockedLength: number;
-    const lockColors = this._lockedColors;
-    for (const colorCategory of lockColors) {
-      const colors = this.getColorsFromCategory(colorCategory);
-      lockedLength ??= colors.length;
-      if (colors.length != lockedLength)
-        throw new Error(
-          `All the color arrays specified in lockColors (${lockColors.join(
-            ', '
-          )}) must be be specified and have equal length`
+  private getDarkGradientNodes(overrides: SVGDarkColorOverride[]) {
+    if (!this.usesCSS()) return [];
+    const nodes: SVGGradientNode[] = [];
+    for (const { colors, idSuffix } of overrides) {
+      for (const [category, color] of Object.entries(colors)) {
+        if (category == 'dropShadow' || !this.isGradientColor(color)) continue;
+        nodes.push(
+          this.getGradientNode({
+            tag: color.type,
+            attrs: color.attrs,
+            stops: color.stops,
+            category: category as ColorCategory,
+            idSuffix,
+          })
         );
+      }
     }
+    return nodes;
   }
 
-  private pickColorIdx(category: ColorCategory) {
-    const colors = this.getColorsFromCategory(category);
+  private getPatternClass(idx: number) {
+    return this.getId(`pattern-${idx + 1}`);
+  }
 
-    return this.config.inner.colorIdxPicker({
-      category,
-      colors,
+  private getAnimationStyleRules() {
+    if (!this.animation) return [];
+    return getAnimationStyleRules(this.animation, {
+      name: escapeCSSIdentifier(this.getId('animation')),
+      selector: this.animation.target == 'cell' ? '.cell' : '.animation',
     });
   }
 
-  private getColorsFromCategory(category: ColorCategory) {
-    return this.config.colors[category] ?? [];
+  private formatCSSColor(
+    category: ColorCategory,
+    colors: Partial<ColorsByCategory>,
+    gradientIdSuffix: string = ''
+  ) {
+    const color = colors[category];
+    return this.isGradientColor(color!)
+      ? `url(#${this.getGradientId(category, gradientIdSuffix)})`
+      : (color as string);
   }
 
-  private hasColorsInCategory(category: ColorCategory) {
-    return this.getColorsFromCategory(category).length > 0;
+  private getGradientId(category: ColorCategory, idSuffix: string = '') {
+    return this.getId(`gradient-${toTrainCase(category)}${idSuffix}`);
   }
 
-  private isGradientColor(color: SVGColor): color is SVGGradientColor {
-    return typeof color !== 'string';
+  // every id in the document goes through here, so that several avatars
+  // can be inlined into the same page
+  private getId(name: string) {
+    return this.idPrefix ? `${this.idPrefix}-${name}` : name;
   }
 
-  private formatCSS(colors: ColorsByCategory): string {
-    const css = `
-      :root {
-        --color-background: ${
-          this.isGradientColor(colors.background)
-            ? 'url(#gradient-background)'
-            : colors.background
-        };
-        --color-cell-fill: ${
-          this.isGradientColor(colors.cellFill)
-            ? 'url(#gradient-cell-fill)'
-            : colors.cellFill
-        };
-        --color-cell-stroke: ${
-          this.isGradientColor(colors.cellStroke)
-            ? 'url(#gradient-cell-stroke)'
-            : colors.cellStroke
-        };
-        ${this.formatCSSDropShadow(colors.dropShadow as string)}
-        --stroke-width: ${this.config.strokeWidth}px;
-        --ptn-width: ${this.calculated.ptnWidth}px;
-        --ptn-height: ${this.calculated.ptnHeight}px;
-      }
-    
-      .background {
-        width: 100%;
-        height: 100%;
-        fill: var(--color-background);
-      }
-    
-      .pattern {
-        fill: var(--color-cell-fill);
-        stroke: var(--color-cell-stroke);
-        stroke-width: var(--stroke-width);
-        stroke-linejoin: ${this.config.strokeLineJoin};
-        paint-order: ${this.config.paintOrder};
-        ${this.formatCSSFiltersDeclaration()}
-        --transform-x: calc((100% - var(--ptn-width) + var(--stroke-width)) / 2);
-        --transform-y: calc((100% - var(--ptn-height) + var(--stroke-width)) / 2);
-        transform: translate(var(--transform-x), var(--transform-y));
-      }
-    `;
-
-    return this.compressCSS(css);
+  // unprefixed documents keep their style rules global, like the ids
+  // they're written for
+  private scopesStyles() {
+    return !!this.idPrefix && this.usesCSS();
   }
 
-  private compressCSS(css: string) {
-    return css
-      .replace(
-        /^(.+)(\{[\s\S]+?\})/gm,
-        (_, definition: string, declarations: string) =>
-          definition.trim() + declarations.replace(/(\n|^ +)/gm, '')
-      )
-      .split(/\n+/)
-      .map((line) => line.trim())
-      .join('')
-      .trim();
+  private getIdPrefix(context: SVGBuildContext) {
+    if (context.idPrefix !== undefined) {
+      if (!/^([A-Za-z_][\w.-]*)?$/.test(context.idPrefix))
+        throw new Error(
+          `"${context.idPrefix}" isn't a valid id prefix (it must start with a letter or underscore, followed by letters, digits, "-", "_" or ".")`
+        );
+      return context.idPrefix;
+    }
+    if (!this.config.inner.output.uniqueIds) return '';
+    // the config is part of the hash, so that avatars built from the same
+    // seed by differently configured generators don't share ids either
+    const { inner, ...config } = this.config;
+    const [configHash] = hashSeed(JSON.stringify(config));
+    const [hash] = hashSeed(context.seed, configHash);
+    return `gg-${hash.toString(16).padStart(8, '0')}`;
   }
 
-  private formatCSSDropShadow(dropShadowColor: string) {
-    if (!dropShadowColor) return '';
-    return `--color-cell-drop-shadow: ${dropShadowColor};`;
+  private getCSSColorVariable(category: ColorCategory) {
+    if (category == 'dropShadow') return '--color-cell-drop-shadow';
+    return `--color-${toTrainCase(category)}`;
   }
 
-  private formatCSSFiltersDeclaration() {
+  private formatCSSFilters() {
     if (!this.hasFilters()) return '';
     const values = [];
     for (const [key, value] of Object.entries(this.config.filters)) {
@@ -252,20 +560,46 @@ class SVG {
         values.push(`${func}(${value})`);
       }
     }
-    return `filter: ${values.join(' ')};`;
+    return values.join(' ');
   }
 
   private hasFilters() {
     return !isEmptyObject(this.config.filters);
   }
 
+  private usesCSS() {
+    return this.config.inner.output.styling == 'css';
+  }
+
+  // css `drop-shadow()` only takes plain colors, so gradient shadows are
+  // drawn by svg filters, like all filters in the attributes styling
+  private usesFilterElements() {
+    return !this.usesCSS() || this.hasGradientDropShadow();
+  }
+
+  private hasGradientDropShadow() {
+    return (
+      'dropShadow' in this.config.filters &&
+      getColorEntries(this.config.colors, 'dropShadow').some((entry) =>
+        isColorPair(entry)
+          ? this.isGradientColor(entry.light) ||
+            this.isGradientColor(entry.dark)
+          : this.isGradientColor(entry)
+      )
+    );
+  }
+
   private getCalculatedValues() {
     const { rows, columns } = this.config.inner.gridSize;
     const { cellSize } = this.config.inner;
     const { gutter, patternAreaRatio, strokeWidth } = this.config;
 
-    const ptnWidth = cellSize * columns + gutter * (columns - 1) + strokeWidth;
-    const ptnHeight = cellSize * rows + gutter * (rows - 1) + strokeWidth;
+    const latticeSize = getLatticePatternSize(
+      { rows, columns },
+      { lattice: this.lattice, cellSize, gutter }
+    );
+    const ptnWidth = latticeSize.width + strokeWidth;
+    const ptnHeight = latticeSize.height + strokeWidth;
     const backgroundWH = Math.max(ptnWidth, ptnHeight) / patternAreaRatio;
 
     const rOuter = (cellSize * this.config.cellRounding.outer) / 2;
@@ -279,15 +613,9 @@ class SVG {
     };
   }
 
-  private isLockedColor(category: ColorCategory) {
-    return (
-      this.config.lockColors == 'all' ||
-      this.config.lockColors.includes(category)
-    );
-  }
-
-  private getAllColors(): ColorsByCategory {
+  private getAllColors(): SVGPickedColors {
     let res = {} as any;
+    const indices: ColorIndices = {};
 
     const lockedColors = this._lockedColors;
 
@@ -299,38 +627,115 @@ class SVG {
 
     for (const category of this.colorCategories) {
       const colors = this.getColorsFromCategory(category);
-      if (this.isLockedColor(category)) {
+      const generator = getColorGenerator(this.config.colors, category);
+      if (generator) {
+        res[category] = this.generateColor(category, generator);
+      } else if (isLockedColor(this.config, category)) {
+        indices[category] = lockedIdx!;
         res[category] = colors[lockedIdx!];
       } else if (this.hasColorsInCategory(category)) {
-        res[category] = colors[this.pickColorIdx(category)];
+        indices[category] = this.pickColorIdx(category);
+        res[category] = colors[indices[category]!];
       }
     }
 
-    return res as ColorsByCategory;
+    return ensureContrast(
+      this.config,
+      { colors: res as ColorsByCategory, indices },
+      lockedIdx!
+    );
   }
 
-  private getGradientSVGTags(colors: ColorsByCategory): GradientSVGTagMap {
-    const tags: GradientSVGTagMap = {
-      background: '',
-      cellFill: '',
-      cellStroke: '',
-      dropShadow: '',
+  private getGradientSVGNodes(colors: ColorsByCategory): GradientSVGNodeMap {
+    const nodes: GradientSVGNodeMap = {
+      background: null,
+      cellFill: null,
+      cellStroke: null,
+      dropShadow: null,
     };
 
     for (const [category, color] of Object.entries(colors)) {
       if (!this.isGradientColor(color)) continue;
       const { type, attrs, stops } = color;
-      // @ts-ignore
-      tags[category] = this.formatGradientTag({
+      nodes[category as ColorCategory] = this.getGradientNode({
         tag: type,
         attrs,
         stops,
-        // @ts-ignore
-        category,
+        category: category as ColorCategory,
       });
     }
 
-    return tags;
+    return nodes;
+  }
+
+  private drawPatterns(
+    cells: Cell[],
+    picked: SVGPickedColors,
+    withCellPaths = this.animation?.target == 'cell'
+  ): SVGPattern[] {
+    if (this.config.colorMode == 'uniform') {
+      const pattern: SVGPattern = {
+        pathData: this.drawCompletePath(cells),
+        ...picked,
+      };
+      if (withCellPaths) {
+        pattern.cellPaths = new Map();
+        this.drawCellPaths(
+          cells,
+          () => '',
+          (cell, pathData) => {
+            const cellPath = pattern.cellPaths!.get(cell) ?? '';
+            pattern.cellPaths!.set(cell, cellPath + pathData);
+          }
+        );
+      }
+      return [pattern];
+    }
+
+    const getGroupKey = this.getCellGroupKeyFunction(cells);
+    const groups = new Map<string, SVGPattern>();
+    this.drawCellPaths(cells, getGroupKey, (cell, pathData) => {
+      const key = getGroupKey(cell);
+      let group = groups.get(key);
+      if (!group) {
+        group = { pathData: '', ...this.getGroupColors(picked) };
+        if (withCellPaths) group.cellPaths = new Map();
+        groups.set(key, group);
+      }
+      group.pathData += pathData;
+      group.cellPaths?.set(cell, (group.cellPaths.get(cell) ?? '') + pathData);
+    });
+
+    return [...groups.values()];
+  }
+
+  // calls `addPath` with the path of every filled cell, and of every
+  // in-corner along with the cell it's attached to
+  private drawCellPaths(
+    cells: Cell[],
+    getGroupKey: (cell: Cell) => string,
+    addPath: (cell: Cell, pathData: string) => void
+  ) {
+    for (const cell of cells) {
+      const coords = this.getRawCellCoordinates(cell);
+
+      if (cell.isFilled()) {
+        addPath(cell, this.drawCellPath({ cell, coords }));
+      } else if (this.canDrawInnerCorner()) {
+        // an in-corner is only drawn when both cells forming it share a group
+        for (const corner of CELL_NEIGHBOR_CORNERS) {
+          const [a, b] = this.getCornerSides(corner).map((side) =>
+            cell.getNeighbor(side)
+          );
+          if (!a?.isFilled() || !b?.isFilled()) continue;
+          if (getGroupKey(a) !== getGroupKey(b)) continue;
+          addPath(
+            a,
+            this.drawInnerCornersPath({ cell, coords, corners: [corner] })
+          );
+        }
+      }
+    }
   }
 
   private drawCompletePath(cells: Iterable<Cell>) {
@@ -340,7 +745,7 @@ class SVG {
       const coords = this.getRawCellCoordinates(cell);
 
       if (cell.isFilled()) {
-        pathData += this.drawFilledCellPath({ cell, coords });
+        pathData += this.drawCellPath({ cell, coords });
       } else if (this.canDrawInnerCorner()) {
         pathData += this.drawInnerCornersPath({ cell, coords });
       }
@@ -349,7 +754,364 @@ class SVG {
     return pathData;
   }
 
+  private getCellGroupKeyFunction(cells: Cell[]): (cell: Cell) => string {
+    // parallel cells always share a key, so that the pattern stays symmetrical
+    const minOf = (cell: Cell, coord: 'row' | 'col') =>
+      Math.min(...cell.getParallels().map((c) => c[coord]), cell[coord]);
+    const representativeKey = (cell: Cell) => {
+      const { row, col } = cell.getSymmetryRepresentative();
+      return `${row}:${col}`;
+    };
+
+    switch (this.config.colorMode) {
+      case 'perRow':
+        return (cell) => `${minOf(cell, 'row')}`;
+      case 'perColumn':
+        return (cell) => `${minOf(cell, 'col')}`;
+      case 'perRegion': {
+        const regionKeys = this.getRegionKeys(cells);
+        return (cell) => regionKeys.get(cell)!;
+      }
+      default:
+        return representativeKey;
+    }
+  }
+
+  private getRegionKeys(cells: Cell[]) {
+    // a region and its parallel regions contain the same symmetry
+    // representatives, so keying each region by its first one gives
+    // all of them the same key
+    const regions = new Map<number, Cell[]>();
+    for (const cell of cells) {
+      const id = cell.getRegionId(8);
+      if (id === null) continue;
+      regions.set(id, [...(regions.get(id) ?? []), cell]);
+    }
+    const keys = new Map<Cell, string>();
+    for (const region of regions.values()) {
+      const { row, col } = region
+        .map((c) => c.getSymmetryRepresentative())
+        .sort((a, b) => a.row - b.row || a.col - b.col)[0]!;
+      for (const cell of region) keys.set(cell, `${row}:${col}`);
+    }
+    return keys;
+  }
+
+  private getGroupColors(picked: SVGPickedColors): SVGPickedColors {
+    const generator = getColorGenerator(this.config.colors, 'cellFill');
+    if (generator) {
+      return ensureContrast(
+        this.config,
+        {
+          colors: {
+            ...picked.colors,
+            cellFill: this.generateColor('cellFill', generator),
+          },
+          indices: picked.indices,
+        },
+        undefined
+      );
+    }
+    const groupCategories = getGroupColorCategories(this.config);
+    const getGroupColors = (idx: number) => {
+      const colors = { ...picked.colors };
+      const indices = { ...picked.indices };
+      for (const category of groupCategories) {
+        const categoryColors = this.getColorsFromCategory(category);
+        if (!categoryColors.length) continue;
+        colors[category] = categoryColors[idx]!;
+        indices[category] = idx;
+      }
+      return { colors, indices };
+    };
+    // the frame's colors already stand out, so only the group's own ones
+    // might have to be re-picked
+    const categories = getContrastCategories(this.config).filter((category) =>
+      groupCategories.includes(category)
+    );
+    const pickedIdx = this.pickColorIdx('cellFill');
+    const idx = findColorIdx(
+      pickedIdx,
+      this.getColorsFromCategory('cellFill').length,
+      (idx) => {
+        const { colors, indices } = getGroupColors(idx);
+        return passesContrast(this.config, colors, indices, categories);
+      }
+    );
+    if (idx === null)
+      throw getContrastError(this.config, categories.join(' and '), picked);
+    if (idx != pickedIdx)
+      this.config.inner.logger.debug(
+        `Replaced colors.cellFill[${pickedIdx}] with colors.cellFill[${idx}] for contrast`
+      );
+    return getGroupColors(idx);
+  }
+
+  private getCornerSides(
+    corner: CellNeighborCorner
+  ): [CellNeighborSide, CellNeighborSide] {
+    const [vertical, horizontal] = corner.split('_') as [
+      CellNeighborSide,
+      CellNeighborSide
+    ];
+    return [vertical, horizontal];
+  }
+
+  private getBackgroundNode(colors: ColorsByCategory): SVGNode {
+    if (this.usesCSS()) return { type: 'rect', attrs: { class: 'background' } };
+    return {
+      type: 'rect',
+      attrs: {
+        class: 'background',
+        width: '100%',
+        height: '100%',
+        fill: this.formatCSSColor('background', colors),
+      },
+    };
+  }
+
+  private getPatternNode(
+    pattern: SVGPattern,
+    idx: number,
+    context: SVGBuildContext,
+    animationDefs: SVGNode[]
+  ): SVGNode {
+    const attrs = this.usesCSS()
+      ? this.getPatternStyleAttributes(pattern, idx)
+      : this.getPatternPresentationAttributes(pattern, idx);
+    if (!pattern.cellPaths) {
+      return {
+        type: 'path',
+        attrs: { class: 'pattern', ...attrs, d: pattern.pathData },
+      };
+    }
+    // cells animated on their own are grouped, with the group taking over
+    // the pattern's styles
+    const children = [...pattern.cellPaths].map(([cell, pathData]) => {
+      const bbox = getBoundingBox(parsePathData(pathData));
+      return this.animate(
+        { type: 'path', attrs: { class: 'cell', d: pathData } },
+        {
+          delay: getCellDelay(this.animation!, cell, {
+            seed: context.seed,
+            columns: this.config.inner.gridSize.columns,
+          }),
+          center: {
+            x: bbox.x + bbox.width / 2,
+            y: bbox.y + bbox.height / 2,
+          },
+          name: `animation-hue-${cell.row}-${cell.col}`,
+        },
+        animationDefs
+      );
+    });
+    return {
+      type: 'element',
+      tag: 'g',
+      attrs: { class: 'pattern', ...attrs },
+      children,
+    };
+  }
+
+  // the presentation attributes of a pattern, minus the paints that its
+  // cells animate on their own
+  private getTransitionPatternAttributes(
+    pattern: SVGPattern,
+    hasStroke: boolean
+  ): SVGAttributes {
+    const { fill, stroke, ...attrs } = this.getPatternPresentationAttributes(
+      pattern,
+      0
+    );
+    if (hasStroke) attrs['stroke-width'] = this.config.strokeWidth;
+    return attrs;
+  }
+
+  private getPatternStyleAttributes(
+    pattern: SVGPattern,
+    idx: number
+  ): SVGAttributes {
+    if (this.config.colorMode == 'uniform') return {};
+    const style = getGroupColorCategories(this.config)
+      .filter((category) => pattern.colors[category] !== undefined)
+      .map((category) => {
+        if (category == 'dropShadow' && this.usesFilterElements()) {
+          return hasValidFilters(this.config.filters, pattern.colors)
+            ? `filter: url(#${this.getFilterId(pattern.colors)});`
+            : '';
+        }
+        return `${this.getCSSColorVariable(category)}: ${this.formatCSSColor(
+          category,
+          pattern.colors,
+          `-${idx + 1}`
+        )};`;
+      })
+      .filter(Boolean)
+      .join(' ');
+    if (
+      !this.usesCSS() ||
+      isEmptyObject(getGroupDarkColors(this.config, pattern.indices))
+    )
+      return { style };
+    return { class: `pattern ${this.getPatternClass(idx)}`, style };
+  }
+
+  // a pattern-wide animation applies to a group of all the pattern's paths,
+  // scaled and rotated around the center of the image
+  private getAnimatedPatternNodes(nodes: SVGNode[], animationDefs: SVGNode[]) {
+    if (this.animation?.target != 'pattern') return nodes;
+    const center = +this.calculated.backgroundWH.toFixed(2) / 2;
+    return [
+      this.animate(
+        {
+          type: 'element',
+          tag: 'g',
+          attrs: { class: 'animation' },
+          children: nodes,
+        },
+        { delay: 0, center: { x: center, y: center }, name: 'animation-hue' },
+        animationDefs
+      ),
+    ];
+  }
+
+  private animate(
+    node: SVGPathNode | SVGElementNode,
+    options: { delay: number; center: Point; name: string },
+    animationDefs: SVGNode[]
+  ): SVGNode {
+    if (this.usesCSS()) {
+      if (options.delay)
+        node.attrs.style = `animation-delay: ${options.delay}s;`;
+      return node;
+    }
+    const result = animateWithSMIL(node, this.animation!, {
+      delay: options.delay,
+      center: options.center,
+      filterId: this.getId(options.name),
+    });
+    animationDefs.push(...result.defs);
+    return result.node;
+  }
+
+  // the attribute equivalent of the `.pattern` css rule, with every
+  // variable and `calc()` replaced by its value
+  private getPatternPresentationAttributes(pattern: SVGPattern, idx: number) {
+    const { colors } = pattern;
+    const { strokeWidth, strokeLineJoin, paintOrder } = this.config;
+    const { x, y } = this.getPatternOffset();
+    const idSuffix = (category: ColorCategory) =>
+      this.isGroupColorCategory(category) ? `-${idx + 1}` : '';
+    return {
+      fill: this.formatCSSColor('cellFill', colors, idSuffix('cellFill')),
+      ...(colors.cellStroke && {
+        stroke: this.formatCSSColor(
+          'cellStroke',
+          colors,
+          idSuffix('cellStroke')
+        ),
+        'stroke-width': strokeWidth,
+      }),
+      'stroke-linejoin': strokeLineJoin,
+      'paint-order': paintOrder,
+      ...(hasValidFilters(this.config.filters, colors) && {
+        filter: `url(#${this.getFilterId(colors)})`,
+      }),
+      transform: `translate(${x} ${y})`,
+    };
+  }
+
+  private getPatternFilterNodes(patterns: SVGPattern[]) {
+    const nodes = new Map<string, SVGElementNode>();
+    const { x, y } = this.getPatternOffset();
+    const size = +this.calculated.backgroundWH.toFixed(2);
+    for (const pattern of patterns) {
+      const id = this.getFilterId(pattern.colors);
+      if (
+        !hasValidFilters(this.config.filters, pattern.colors) ||
+        nodes.has(id)
+      )
+        continue;
+      nodes.set(
+        id,
+        getFilterNode(id, this.config.filters, {
+          // the whole image, in the pattern's translated coordinates
+          region: { x: -x, y: -y, width: size, height: size },
+          dropShadowColor: pattern.colors.dropShadow,
+          bbox: getBoundingBox(parsePathData(pattern.pathData)),
+        })
+      );
+    }
+    return [...nodes.values()];
+  }
+
+  // groups with the same drop shadow color share a filter
+  private getFilterId(colors: ColorsByCategory) {
+    if (!this.isGroupColorCategory('dropShadow'))
+      return this.getId('filter-pattern');
+    const idx = this.getColorsFromCategory('dropShadow').indexOf(
+      colors.dropShadow
+    );
+    return this.getId(`filter-pattern-${idx + 1}`);
+  }
+
+  private isGroupColorCategory(category: ColorCategory) {
+    return (
+      this.config.colorMode != 'uniform' &&
+      getGroupColorCategories(this.config).includes(category)
+    );
+  }
+
+  // same translation as the one applied to `.pattern` in the css, where
+  // 100% is the width of the view box
+  private getPatternOffset() {
+    const { ptnWidth, ptnHeight } = this.calculated;
+    const { strokeWidth } = this.config;
+    const size = +this.calculated.backgroundWH.toFixed(2);
+    return {
+      x: +((size - ptnWidth + strokeWidth) / 2).toFixed(3),
+      y: +((size - ptnHeight + strokeWidth) / 2).toFixed(3),
+    };
+  }
+
+  private getPatternGradientNodes(patterns: SVGPattern[]) {
+    if (this.config.colorMode == 'uniform') return [];
+    const nodes: SVGGradientNode[] = [];
+    patterns.forEach((pattern, idx) => {
+      for (const category of getGroupColorCategories(this.config)) {
+        const color = pattern.colors[category];
+        // gradient shadows are part of the filters
+        if (category == 'dropShadow') continue;
+        if (!color || !this.isGradientColor(color)) continue;
+        nodes.push(
+          this.getGradientNode({
+            tag: color.type,
+            attrs: color.attrs,
+            stops: color.stops,
+            category,
+            idSuffix: `-${idx + 1}`,
+          })
+        );
+      }
+    });
+    return nodes;
+  }
+
+  private drawCellPath(options: {
+    cell: Cell;
+    coords: { x: number; y: number };
+  }) {
+    const { cellShape } = this.config;
+    if (cellShape == 'square') return this.drawFilledCellPath(options);
+    return drawCellShapePath(cellShape, {
+      ...options.coords,
+      cellSize: this.config.inner.cellSize,
+      pointsUp: options.cell.isPointingUp(),
+    });
+  }
+
   private canDrawInnerCorner() {
+    if (this.config.cellShape != 'square') return false;
     const roundingInner = this.config.cellRounding.inner;
     const roundingOuter = this.config.cellRounding.outer;
     const roundingsDiffer = this.config.strokeWidth
@@ -451,9 +1213,11 @@ class SVG {
   private drawInnerCornersPath(options: {
     cell: Cell;
     coords: { x: number; y: number };
+    corners?: readonly CellNeighborCorner[];
   }) {
     const cell = options.cell;
     const { x, y } = options.coords;
+    const corners = options.corners ?? CELL_NEIGHBOR_CORNERS;
 
     const cellSize = this.config.inner.cellSize;
     const rInner = this.calculated.cellRadius.inner;
@@ -467,7 +1231,7 @@ class SVG {
 
     let pathData = '';
 
-    if (hasTopNb && hasLeftNb) {
+    if (hasTopNb && hasLeftNb && corners.includes('TOP_LEFT')) {
       pathData += `M ${x} ${y + rInner} `;
       pathData += `A ${rInner} ${rInner} 0 0 1 ${x + rInner} ${y} `;
       pathData += `L ${x + rOuter} ${y} `;
@@ -481,7 +1245,7 @@ class SVG {
       pathData += 'Z ';
     }
 
-    if (hasTopNb && hasRightNb) {
+    if (hasTopNb && hasRightNb && corners.includes('TOP_RIGHT')) {
       pathData += `M ${x + cellSize - rInner} ${y} `;
       pathData += `A ${rInner} ${rInner} 0 0 1 ${x + cellSize} ${y + rInner} `;
       pathData += `L ${x + cellSize} ${y + rOuter} `;
@@ -497,7 +1261,7 @@ class SVG {
       pathData += 'Z ';
     }
 
-    if (hasBottomNb && hasRightNb) {
+    if (hasBottomNb && hasRightNb && corners.includes('BOTTOM_RIGHT')) {
       pathData += `M ${x + cellSize} ${y + cellSize - rInner} `;
       pathData += `A ${rInner} ${rInner} 0 0 1 ${x + cellSize - rInner} ${
         y + cellSize
@@ -515,7 +1279,7 @@ class SVG {
       pathData += 'Z ';
     }
 
-    if (hasBottomNb && hasLeftNb) {
+    if (hasBottomNb && hasLeftNb && corners.includes('BOTTOM_LEFT')) {
       pathData += `M ${x + rInner} ${y + cellSize} `;
       pathData += `A ${rInner} ${rInner} 0 0 1 ${x} ${y + cellSize - rInner} `;
       pathData += `L ${x} ${y + cellSize - rOuter} `;
@@ -535,30 +1299,38 @@ class SVG {
   }
 
   private getRawCellCoordinates(coord: CellCoordinates) {
+    if (this.lattice != 'square') {
+      return getLatticeCellPosition(coord, {
+        lattice: this.lattice,
+        cellSize: this.config.inner.cellSize,
+        gutter: this.config.gutter,
+      });
+    }
     return {
       x: coord.col * (this.config.inner.cellSize + this.config.gutter),
       y: coord.row * (this.config.inner.cellSize + this.config.gutter),
     };
   }
 
-  private formatGradientTag(options: {
+  private getGradientNode(options: {
     tag: SVGGradientTag;
     attrs: Record<any, any>;
     stops: Array<Stop>;
     category: ColorCategory;
-  }): string {
-    const { tag, attrs, stops, category } = options;
-    let svg = `<${tag} id="gradient-${toTrainCase(category)}" `;
-    for (const [key, value] of Object.entries(attrs))
-      svg += `${key}="${value}" `;
-    svg += '>';
-    for (const stop of stops) {
-      svg += `<stop offset="${stop.offset}" stop-color="${
-        stop.color
-      }" stop-opacity="${stop.opacity ?? 1}" />`;
-      svg += '';
-    }
-    return svg + `</${tag}>`;
+    idSuffix?: string;
+  }): SVGGradientNode {
+    const { tag, attrs, stops, category, idSuffix = '' } = options;
+    return {
+      type: 'gradient',
+      tag,
+      id: this.getGradientId(category, idSuffix),
+      attrs: { ...attrs },
+      stops: stops.map((stop) => ({ ...stop })),
+    };
+  }
+
+  private get lattice() {
+    return getCellShapeLattice(this.config.cellShape);
   }
 
   private get colorCategories() {
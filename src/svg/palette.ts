@@ -0,0 +1,349 @@
+import { InvalidConfigError } from '@/generator/errors';
+import type { ConfigIssue } from '@/generator/types';
+import { parseColor } from '@/raster/colors';
+import { SVG_PALETTE_HARMONIES, SVG_PALETTE_HUE_OFFSETS } from './constants';
+import type {
+  ColorCategory,
+  ColorIndices,
+  ColorsByCategory,
+  OKLCH,
+  SVGColor,
+  SVGColorGenerator,
+  SVGColorList,
+  SVGColorPair,
+  SVGConfig,
+  SVGDarkColorOverride,
+  SVGPaletteConfig,
+  SVGPickedColors,
+  SVGStyleRule,
+} from './types';
+import { isEmptyObject } from './utils';
+
+// the range that generated fills keep their lightness in, so that they
+// stand out from the light background
+const MIN_FILL_LIGHTNESS = 0.3;
+const MAX_FILL_LIGHTNESS = 0.85;
+
+// `background`, `cellFill` and `cellStroke` colors derived from the base
+// color of `palette`, as hex so that every renderer can parse them
+export function generatePalette(
+  palette: SVGPaletteConfig,
+  options: { withStroke: boolean }
+) {
+  validatePalette(palette);
+  const base = toOKLCH(palette.base);
+  const offsets = SVG_PALETTE_HUE_OFFSETS[palette.harmony];
+  // hues that don't fit in one round repeat with a different lightness
+  const rounds = Math.ceil(palette.size / offsets.length);
+  const step = rounds > 1 ? Math.min(0.12, 0.5 / (rounds - 1)) : 0;
+
+  const fills: OKLCH[] = [];
+  for (let i = 0; i < palette.size; i++) {
+    const round = Math.floor(i / offsets.length);
+    fills.push({
+      l: clamp(
+        base.l + (round - (rounds - 1) / 2) * step,
+        MIN_FILL_LIGHTNESS,
+        MAX_FILL_LIGHTNESS
+      ),
+      c: base.c,
+      h: base.h + offsets[i % offsets.length]!,
+    });
+  }
+
+  return {
+    background: [
+      formatOKLCH({ l: 0.97, c: Math.min(base.c, 0.02), h: base.h }),
+    ],
+    cellFill: fills.map(formatOKLCH),
+    ...(options.withStroke && {
+      cellStroke: fills.map((fill) =>
+        formatOKLCH({ ...fill, l: Math.max(fill.l - 0.2, 0.15) })
+      ),
+    }),
+  };
+}
+
+// a color with the lightness and chroma of `generator`, and a hue picked
+// from the seed
+export function generateColor(generator: SVGColorGenerator, hue: number) {
+  return formatOKLCH({
+    l: generator.lightness ?? 0.65,
+    c: generator.chroma ?? 0.15,
+    h: hue,
+  });
+}
+
+export function isColorGenerator(value: unknown): value is SVGColorGenerator {
+  return !!value && !Array.isArray(value) && typeof value == 'object';
+}
+
+export function getColorGenerator(
+  colors: SVGConfig['colors'],
+  category: ColorCategory
+) {
+  const value = colors[category];
+  return isColorGenerator(value) ? value : null;
+}
+
+// the colors listed for a category, none when they're generated
+export function getColorEntries(
+  colors: SVGConfig['colors'],
+  category: ColorCategory
+): SVGColorList {
+  const value = colors[category];
+  return isColorGenerator(value) ? [] : value ?? [];
+}
+
+export function isColorPair(
+  entry: SVGColor | SVGColorPair
+): entry is SVGColorPair {
+  return typeof entry == 'object' && 'light' in entry;
+}
+
+// the light variants of the colors of a category, which are what colors
+// are picked from
+export function getLightColors(
+  colors: SVGConfig['colors'],
+  category: ColorCategory
+): SVGColor[] {
+  return getColorEntries(colors, category).map((entry) =>
+    isColorPair(entry) ? entry.light : entry
+  );
+}
+
+export function getLockedCategories(
+  config: Pick<SVGConfig, 'colors' | 'lockColors'>
+): ColorCategory[] {
+  if (config.lockColors == 'all')
+    return Object.keys(config.colors) as ColorCategory[];
+  return config.lockColors;
+}
+
+export function isLockedColor(
+  config: Pick<SVGConfig, 'lockColors'>,
+  category: ColorCategory
+) {
+  return config.lockColors == 'all' || config.lockColors.includes(category);
+}
+
+// the colors at `idx` in each of the lists locked together
+export function getLockedColors(
+  config: Pick<SVGConfig, 'colors' | 'lockColors'>,
+  idx: number
+) {
+  const colors: Partial<ColorsByCategory> = {};
+  const indices: ColorIndices = {};
+  for (const category of getLockedCategories(config)) {
+    const color = getLightColors(config.colors, category)[idx];
+    if (color === undefined) continue;
+    colors[category] = color;
+    indices[category] = idx;
+  }
+  return { colors, indices };
+}
+
+// the dark variants of those of the picked colors that have one
+export function getDarkColors(
+  colors: SVGConfig['colors'],
+  indices: ColorIndices
+): Partial<ColorsByCategory> {
+  const dark: Partial<ColorsByCategory> = {};
+  for (const category of Object.keys(colors) as ColorCategory[]) {
+    const idx = indices[category];
+    if (idx === undefined) continue;
+    const entry = getColorEntries(colors, category)[idx];
+    if (entry && isColorPair(entry)) dark[category] = entry.dark;
+  }
+  return dark;
+}
+
+// the categories whose colors can differ from one pattern to the next
+export function getGroupColorCategories(
+  config: Pick<SVGConfig, 'colors' | 'lockColors'>
+): ColorCategory[] {
+  return isLockedColor(config, 'cellFill')
+    ? getLockedCategories(config)
+    : ['cellFill'];
+}
+
+// the dark variants of a pattern's group colors, which are the same for
+// every pattern when the colors are uniform
+export function getGroupDarkColors(
+  config: Pick<SVGConfig, 'colors' | 'lockColors' | 'colorMode'>,
+  indices: ColorIndices
+) {
+  const dark: Partial<ColorsByCategory> = {};
+  if (config.colorMode == 'uniform') return dark;
+  const categories = getGroupColorCategories(config);
+  for (const [category, color] of Object.entries(
+    getDarkColors(config.colors, indices)
+  )) {
+    if (categories.includes(category as ColorCategory))
+      dark[category as ColorCategory] = color;
+  }
+  return dark;
+}
+
+// the dark colors of the document, then those of each pattern, along with
+// the suffix that tells their gradients apart
+export function getDarkColorOverrides(
+  config: Pick<SVGConfig, 'colors' | 'lockColors' | 'colorMode'>,
+  picked: SVGPickedColors,
+  patterns: SVGPickedColors[]
+): SVGDarkColorOverride[] {
+  return [
+    {
+      colors: getDarkColors(config.colors, picked.indices),
+      idSuffix: '-dark',
+      patternIdx: null,
+    },
+    ...patterns.map((pattern, idx) => ({
+      colors: getGroupDarkColors(config, pattern.indices),
+      idSuffix: `-dark-${idx + 1}`,
+      patternIdx: idx,
+    })),
+  ];
+}
+
+// overrides the colors that have a dark variant when the viewer prefers
+// a dark color scheme, which takes css
+export function getDarkStyleRules(
+  overrides: SVGDarkColorOverride[],
+  options: {
+    getDeclarations: (
+      override: SVGDarkColorOverride,
+      priority: string
+    ) => Record<string, string>;
+    getPatternClass: (idx: number) => string;
+  }
+): SVGStyleRule[] {
+  const rules: SVGStyleRule[] = [];
+  for (const override of overrides) {
+    const { patternIdx } = override;
+    // group colors are set inline, which only `!important` overrides
+    const declarations = options.getDeclarations(
+      override,
+      patternIdx === null ? '' : ' !important'
+    );
+    if (isEmptyObject(declarations)) continue;
+    rules.push({
+      selector:
+        patternIdx === null
+          ? ':root'
+          : `.${options.getPatternClass(patternIdx)}`,
+      declarations,
+    });
+  }
+  if (!rules.length) return [];
+  return [
+    {
+      selector: '@media (prefers-color-scheme: dark)',
+      declarations: {},
+      rules,
+    },
+  ];
+}
+
+// palettes are generated while the config is resolved, before it's
+// validated as a whole
+function validatePalette(palette: SVGPaletteConfig) {
+  const issues: ConfigIssue[] = [];
+  if (!SVG_PALETTE_HARMONIES.includes(palette.harmony))
+    issues.push({
+      path: 'svg.palette.harmony',
+      message: `must be one of: ${SVG_PALETTE_HARMONIES.map((harmony) =>
+        JSON.stringify(harmony)
+      ).join(', ')}`,
+    });
+  if (!Number.isInteger(palette.size) || palette.size <= 0)
+    issues.push({
+      path: 'svg.palette.size',
+      message: 'must be a positive integer',
+    });
+  try {
+    parseColor(palette.base);
+  } catch {
+    issues.push({
+      path: 'svg.palette.base',
+      message: `"${palette.base}" isn't a supported color`,
+    });
+  }
+  if (issues.length) throw new InvalidConfigError(issues);
+}
+
+export function toOKLCH(color: string): OKLCH {
+  const [r, g, b] = parseColor(color).map(toLinear) as [number, number, number];
+
+  const l = Math.cbrt(0.4122214708 * r + 0.5363325363 * g + 0.0514459929 * b);
+  const m = Math.cbrt(0.2119034982 * r + 0.6806995451 * g + 0.1073969566 * b);
+  const s = Math.cbrt(0.0883024619 * r + 0.2817188376 * g + 0.6299787005 * b);
+
+  const L = 0.2104542553 * l + 0.793617785 * m - 0.0040720468 * s;
+  const A = 1.9779984951 * l - 2.428592205 * m + 0.4505937099 * s;
+  const B = 0.0259040371 * l + 0.7827717662 * m - 0.808675766 * s;
+
+  const c = Math.hypot(A, B);
+  // grays have no hue, which `0` stands in for
+  const h = c < 1e-4 ? 0 : (Math.atan2(B, A) * 180) / Math.PI;
+  return { l: L, c, h: (h + 360) % 360 };
+}
+
+// out of gamut colors keep their lightness and hue, and lose chroma until
+// they fit in srgb
+export function formatOKLCH(color: OKLCH) {
+  let rgb = toLinearRGB(color);
+  if (!isInGamut(rgb)) {
+    let low = 0;
+    let high = color.c;
+    for (let i = 0; i < 20; i++) {
+      const c = (low + high) / 2;
+      if (isInGamut(toLinearRGB({ ...color, c }))) low = c;
+      else high = c;
+    }
+    rgb = toLinearRGB({ ...color, c: low });
+  }
+  return `#${rgb
+    .map((channel) =>
+      Math.round(clamp(fromLinear(channel), 0, 1) * 255)
+        .toString(16)
+        .padStart(2, '0')
+    )
+    .join('')}`;
+}
+
+function toLinearRGB({ l: L, c, h }: OKLCH) {
+  const hue = (h * Math.PI) / 180;
+  const A = c * Math.cos(hue);
+  const B = c * Math.sin(hue);
+
+  const l = (L + 0.3963377774 * A + 0.2158037573 * B) ** 3;
+  const m = (L - 0.1055613458 * A - 0.0638541728 * B) ** 3;
+  const s = (L - 0.0894841775 * A - 1.291485548 * B) ** 3;
+
+  return [
+    4.0767416621 * l - 3.3077115913 * m + 0.2309699292 * s,
+    -1.2684380046 * l + 2.6097574011 * m - 0.3413193965 * s,
+    -0.0041960863 * l - 0.7034186147 * m + 1.707614701 * s,
+  ];
+}
+
+function isInGamut(rgb: number[]) {
+  return rgb.every((channel) => channel >= -1e-4 && channel <= 1 + 1e-4);
+}
+
+export function toLinear(channel: number) {
+  return channel <= 0.04045
+    ? channel / 12.92
+    : ((channel + 0.055) / 1.055) ** 2.4;
+}
+
+function fromLinear(channel: number) {
+  return channel <= 0.0031308
+    ? channel * 12.92
+    : 1.055 * channel ** (1 / 2.4) - 0.055;
+}
+
+function clamp(n: number, min: number, max: number) {
+  return Math.min(max, Math.max(min, n));
+}
@@ -0,0 +1,112 @@
+import Raster from '@/raster';
+import { createPaint } from '@/raster/colors';
+import { applyFilters } from '@/raster/filters';
+import { getBoundingBox, parsePathData, strokePolygons } from '@/raster/path';
+import type { Point, Polygon } from '@/raster/types';
+import { hasValidFilters } from './filters';
+import type {
+  SVGCalculatedValues,
+  SVGColor,
+  SVGConfig,
+  SVGPattern,
+} from './types';
+
+type RasterTransform = {
+  size: number;
+  scale: number;
+  toPixel: (polygon: Polygon) => Polygon;
+  toLocal: (point: Point) => Point;
+};
+
+// draws a built avatar the same way a browser renders its svg
+export function rasterize(
+  config: SVGConfig,
+  calculated: SVGCalculatedValues,
+  options: { background: SVGColor; patterns: SVGPattern[]; size: number }
+) {
+  const { background, patterns, size } = options;
+  if (!Number.isInteger(size) || size <= 0)
+    throw new Error('Raster size must be a positive integer');
+
+  const { backgroundWH, ptnWidth, ptnHeight } = calculated;
+  const { strokeWidth } = config;
+  const scale = size / backgroundWH;
+
+  // same translation as the one applied to `.pattern` in `formatCSS`
+  const tx = (backgroundWH - ptnWidth + strokeWidth) / 2;
+  const ty = (backgroundWH - ptnHeight + strokeWidth) / 2;
+  const toPixel = (polygon: Polygon) =>
+    polygon.map(({ x, y }) => ({ x: (x + tx) * scale, y: (y + ty) * scale }));
+  const toLocal = ({ x, y }: Point) => ({
+    x: x / scale - tx,
+    y: y / scale - ty,
+  });
+
+  const raster = new Raster(size, size);
+  raster.fill(
+    [
+      toPixel([
+        { x: -tx, y: -ty },
+        { x: backgroundWH - tx, y: -ty },
+        { x: backgroundWH - tx, y: backgroundWH - ty },
+        { x: -tx, y: backgroundWH - ty },
+      ]),
+    ],
+    createPaint({
+      color: background,
+      bbox: { x: -tx, y: -ty, width: backgroundWH, height: backgroundWH },
+      viewport: backgroundWH,
+      toLocal,
+    })
+  );
+
+  for (const pattern of patterns) {
+    raster.draw(
+      rasterizePattern(config, pattern, {
+        viewport: backgroundWH,
+        transform: { size, scale, toPixel, toLocal },
+      })
+    );
+  }
+
+  return raster;
+}
+
+function rasterizePattern(
+  config: SVGConfig,
+  pattern: SVGPattern,
+  options: { viewport: number; transform: RasterTransform }
+) {
+  const { size, scale, toPixel, toLocal } = options.transform;
+  const { strokeWidth, strokeLineJoin, paintOrder, filters } = config;
+  const { colors } = pattern;
+
+  const shapes = parsePathData(pattern.pathData);
+  const bbox = getBoundingBox(shapes);
+  const paint = (color: SVGColor) =>
+    createPaint({ color, bbox, viewport: options.viewport, toLocal });
+
+  const layers: Array<() => void> = [];
+  const raster = new Raster(size, size);
+  layers.push(() => raster.fill(shapes.map(toPixel), paint(colors.cellFill)));
+  if (strokeWidth > 0 && colors.cellStroke) {
+    const outline = strokePolygons(shapes, {
+      width: strokeWidth,
+      lineJoin: strokeLineJoin,
+    });
+    const drawStroke = () =>
+      raster.fill(outline.map(toPixel), paint(colors.cellStroke));
+    if (paintOrder == 'stroke') layers.unshift(drawStroke);
+    else layers.push(drawStroke);
+  }
+  for (const draw of layers) draw();
+
+  return hasValidFilters(filters, colors)
+    ? applyFilters(raster, filters, {
+        scale,
+        dropShadowPaint: colors.dropShadow
+          ? paint(colors.dropShadow)
+          : undefined,
+      })
+    : raster;
+}
@@ -0,0 +1,165 @@
+import type { CellCoordinates } from '@/grid/cell/types';
+import type { GridLattice } from '@/grid/types';
+import type { SVGCellShape } from './types';
+
+type LatticeOptions = {
+  lattice: GridLattice;
+  cellSize: number;
+  gutter: number;
+};
+
+const SQRT3 = Math.sqrt(3);
+
+export function getCellShapeLattice(shape: SVGCellShape): GridLattice {
+  if (shape == 'hexagon') return 'hexagonal';
+  if (shape == 'triangle') return 'triangular';
+  return 'square';
+}
+
+// hexagons are flat-topped, with every odd column shifted down by half a
+// row, so that grids with an odd number of columns stay mirror-symmetrical;
+// triangles alternate between pointing up and down along each row
+export function getLatticeCellPosition(
+  { row, col }: CellCoordinates,
+  options: LatticeOptions
+) {
+  const { cellSize, gutter } = options;
+  switch (options.lattice) {
+    case 'hexagonal': {
+      const pitchY = getHexagonHeight(cellSize) + gutter;
+      return {
+        x: col * (cellSize * 0.75 + gutter),
+        y: row * pitchY + (col % 2 ? pitchY / 2 : 0),
+      };
+    }
+    case 'triangular':
+      return {
+        x: (col * (cellSize + gutter)) / 2,
+        y: row * (getTriangleHeight(cellSize) + gutter),
+      };
+    default:
+      return {
+        x: col * (cellSize + gutter),
+        y: row * (cellSize + gutter),
+      };
+  }
+}
+
+export function getLatticePatternSize(
+  size: { rows: number; columns: number },
+  options: LatticeOptions
+) {
+  const { rows, columns } = size;
+  const { cellSize, gutter } = options;
+  switch (options.lattice) {
+    case 'hexagonal': {
+      const height = getHexagonHeight(cellSize);
+      return {
+        width: (columns - 1) * (cellSize * 0.75 + gutter) + cellSize,
+        height:
+          (rows - 1) * (height + gutter) +
+          height +
+          (columns > 1 ? (height + gutter) / 2 : 0),
+      };
+    }
+    case 'triangular': {
+      const height = getTriangleHeight(cellSize);
+      return {
+        width: ((columns - 1) * (cellSize + gutter)) / 2 + cellSize,
+        height: (rows - 1) * (height + gutter) + height,
+      };
+    }
+    default:
+      return {
+        width: cellSize * columns + gutter * (columns - 1),
+        height: cellSize * rows + gutter * (rows - 1),
+      };
+  }
+}
+
+// draws a non-square cell whose lattice slot starts at (x, y)
+export function drawCellShapePath(
+  shape: Exclude<SVGCellShape, 'square'>,
+  options: { x: number; y: number; cellSize: number; pointsUp: boolean }
+) {
+  const { x, y, cellSize: s, pointsUp } = options;
+
+  switch (shape) {
+    case 'circle': {
+      const r = s / 2;
+      return (
+        `M ${f(x)} ${f(y + r)} ` +
+        `A ${f(r)} ${f(r)} 0 1 1 ${f(x + s)} ${f(y + r)} ` +
+        `A ${f(r)} ${f(r)} 0 1 1 ${f(x)} ${f(y + r)} Z `
+      );
+    }
+    case 'diamond':
+      return drawPolygon([
+        [x + s / 2, y],
+        [x + s, y + s / 2],
+        [x + s / 2, y + s],
+        [x, y + s / 2],
+      ]);
+    case 'plus': {
+      const [a, b] = [s / 3, (s * 2) / 3];
+      return drawPolygon([
+        [x + a, y],
+        [x + b, y],
+        [x + b, y + a],
+        [x + s, y + a],
+        [x + s, y + b],
+        [x + b, y + b],
+        [x + b, y + s],
+        [x + a, y + s],
+        [x + a, y + b],
+        [x, y + b],
+        [x, y + a],
+        [x + a, y + a],
+      ]);
+    }
+    case 'hexagon': {
+      const h = getHexagonHeight(s);
+      return drawPolygon([
+        [x + s / 4, y],
+        [x + (s * 3) / 4, y],
+        [x + s, y + h / 2],
+        [x + (s * 3) / 4, y + h],
+        [x + s / 4, y + h],
+        [x, y + h / 2],
+      ]);
+    }
+    case 'triangle': {
+      const h = getTriangleHeight(s);
+      return pointsUp
+        ? drawPolygon([
+            [x + s / 2, y],
+            [x + s, y + h],
+            [x, y + h],
+          ])
+        : drawPolygon([
+            [x, y],
+            [x + s, y],
+            [x + s / 2, y + h],
+          ]);
+    }
+  }
+}
+
+function drawPolygon(points: Array<[number, number]>) {
+  const [first, ...rest] = points;
+  let pathData = `M ${f(first![0])} ${f(first![1])} `;
+  for (const [px, py] of rest) pathData += `L ${f(px)} ${f(py)} `;
+  return pathData + 'Z ';
+}
+
+function getHexagonHeight(width: number) {
+  return (width * SQRT3) / 2;
+}
+
+function getTriangleHeight(width: number) {
+  return (width * SQRT3) / 2;
+}
+
+function f(n: number) {
+  return +n.toFixed(3);
+}
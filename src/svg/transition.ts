@@ -0,0 +1,265 @@
+import { getBoundingBox, parsePathData } from '@/raster/path';
+import {
+  animateWithSMIL,
+  getKeyframeDeclarations,
+  getKeySplines,
+  getSMILTiming,
+} from './animation';
+import type {
+  ColorCategory,
+  ColorsByCategory,
+  SVGAnimation,
+  SVGAnimationKeyframe,
+  SVGAttributes,
+  SVGColor,
+  SVGElementNode,
+  SVGFrame,
+  SVGNode,
+  SVGPaintChange,
+  SVGStyleRule,
+  SVGTransitionKind,
+  SVGTransitionOptions,
+} from './types';
+import { compareCellKeys } from './utils';
+
+type TransitionPaints = Partial<Record<'fill' | 'stroke', SVGPaintChange>>;
+
+type TransitionNodeOptions = SVGTransitionOptions & {
+  usesCSS: boolean;
+  getName: (name: string) => string;
+};
+
+const TRANSITION_KEYFRAMES: Record<
+  Exclude<SVGTransitionKind, 'stay'>,
+  SVGAnimationKeyframe[]
+> = {
+  enter: [
+    { offset: 0, opacity: 0, scale: 0.3 },
+    { offset: 1, opacity: 1, scale: 1 },
+  ],
+  exit: [
+    { offset: 0, opacity: 1, scale: 1 },
+    { offset: 1, opacity: 0, scale: 0.3 },
+  ],
+  fade: [
+    { offset: 0, opacity: 1 },
+    { offset: 1, opacity: 0 },
+  ],
+};
+
+export function validateTransitionOptions(options: SVGTransitionOptions) {
+  if (!(options.duration > 0))
+    throw new Error('Transition duration must be a positive number of seconds');
+  getKeySplines(options.easing);
+}
+
+export function getTransitionAnimation(
+  kind: Exclude<SVGTransitionKind, 'stay'>,
+  options: SVGTransitionOptions
+): SVGAnimation {
+  return {
+    keyframes: TRANSITION_KEYFRAMES[kind],
+    target: 'cell',
+    duration: options.duration,
+    stagger: 0,
+    iterations: 1,
+    easing: options.easing,
+    delays: 'random',
+  };
+}
+
+// cells read the paints they change between from `--from-fill`,
+// `--to-fill`, `--from-stroke` and `--to-stroke`
+export function getTransitionStyleRules(
+  options: SVGTransitionOptions & {
+    getName: (name: string) => string;
+    background: SVGPaintChange;
+    hasStroke: boolean;
+  }
+): SVGStyleRule[] {
+  const { duration, easing, getName } = options;
+  const [fromBackground, toBackground] = options.background;
+  const timing = `${duration}s ${easing} 0s 1 both`;
+  const paints = (side: 'from' | 'to') => ({
+    fill: `var(--${side}-fill)`,
+    ...(options.hasStroke && { stroke: `var(--${side}-stroke)` }),
+  });
+  const keyframes = (name: string, frames: Array<Record<string, string>>) => ({
+    selector: `@keyframes ${getName(name)}`,
+    declarations: {},
+    rules: frames.map((declarations, idx) => ({
+      selector: `${(idx / (frames.length - 1)) * 100}%`,
+      declarations,
+    })),
+  });
+  const recolor = `${getName('transition-paint')} ${timing}`;
+
+  return [
+    keyframes('transition-background', [
+      { fill: fromBackground },
+      { fill: toBackground },
+    ]),
+    keyframes('transition-paint', [paints('from'), paints('to')]),
+    ...(['enter', 'exit', 'fade'] as const).map((kind) =>
+      keyframes(
+        `transition-${kind}`,
+        TRANSITION_KEYFRAMES[kind].map(getKeyframeDeclarations)
+      )
+    ),
+    {
+      selector: '.background',
+      declarations: {
+        animation: `${getName('transition-background')} ${timing}`,
+      },
+    },
+    {
+      selector: '.cell',
+      declarations: {
+        animation: recolor,
+        'transform-box': 'fill-box',
+        'transform-origin': 'center',
+      },
+    },
+    ...(['enter', 'exit', 'fade'] as const).map((kind) => ({
+      selector: `.cell.${kind}`,
+      declarations: {
+        animation: `${recolor}, ${getName(`transition-${kind}`)} ${timing}`,
+      },
+    })),
+  ];
+}
+
+export function getSMILPaintAnimations(
+  paints: TransitionPaints,
+  options: SVGTransitionOptions
+): SVGElementNode[] {
+  const timing = getSMILTiming(getTransitionAnimation('fade', options), 0);
+  return Object.entries(paints).map(([attributeName, [from, to]]) => ({
+    type: 'element',
+    tag: 'animate',
+    attrs: {
+      attributeName,
+      values: `${from};${to}`,
+      keyTimes: '0;1',
+      ...timing('0;1'),
+    },
+    children: [],
+  }));
+}
+
+// a path for every cell that's filled in either frame, in the order of
+// their coordinates. `paint` turns a color into the paint it's drawn with
+export function getTransitionCellNodes(
+  from: SVGFrame,
+  to: SVGFrame,
+  options: TransitionNodeOptions & {
+    paint: (category: ColorCategory, color?: SVGColor) => string;
+    hasStroke: boolean;
+  }
+): SVGNode[] {
+  const { paint, hasStroke } = options;
+  const fromCells = getFrameCells(from);
+  const toCells = getFrameCells(to);
+  const keys = [...new Set([...toCells.keys(), ...fromCells.keys()])];
+  const cellNodes: SVGNode[] = [];
+  for (const key of keys.sort(compareCellKeys)) {
+    const fromCell = fromCells.get(key);
+    const toCell = toCells.get(key);
+    const fromColors = (fromCell ?? toCell)!.colors;
+    const toColors = (toCell ?? fromCell)!.colors;
+    const addCell = (kind: SVGTransitionKind, pathData: string) => {
+      const paints = {
+        fill: [
+          paint('cellFill', fromColors.cellFill),
+          paint('cellFill', toColors.cellFill),
+        ] as SVGPaintChange,
+        ...(hasStroke && {
+          stroke: [
+            paint('cellStroke', fromColors.cellStroke),
+            paint('cellStroke', toColors.cellStroke),
+          ] as SVGPaintChange,
+        }),
+      };
+      cellNodes.push(getTransitionCellNode(kind, pathData, paints, options));
+    };
+    if (fromCell && toCell) {
+      addCell('stay', toCell.pathData);
+      if (fromCell.pathData != toCell.pathData)
+        addCell('fade', fromCell.pathData);
+    } else if (toCell) {
+      addCell('enter', toCell.pathData);
+    } else {
+      addCell('exit', fromCell!.pathData);
+    }
+  }
+  return cellNodes;
+}
+
+export function getTransitionBackgroundNode(
+  [from, to]: SVGPaintChange,
+  options: SVGTransitionOptions & { usesCSS: boolean }
+): SVGNode {
+  if (options.usesCSS) return { type: 'rect', attrs: { class: 'background' } };
+  return {
+    type: 'element',
+    tag: 'rect',
+    attrs: { class: 'background', width: '100%', height: '100%', fill: from },
+    children:
+      from != to ? getSMILPaintAnimations({ fill: [from, to] }, options) : [],
+  };
+}
+
+// the cells of a frame by their coordinates, since the grid reuses its
+// cells from one build to the next
+function getFrameCells(frame: SVGFrame) {
+  const cells = new Map<
+    string,
+    { pathData: string; colors: ColorsByCategory }
+  >();
+  for (const { cellPaths, colors } of frame.patterns) {
+    for (const [cell, pathData] of cellPaths!) {
+      cells.set(`${cell.row}:${cell.col}`, { pathData, colors });
+    }
+  }
+  return cells;
+}
+
+function getTransitionCellNode(
+  kind: SVGTransitionKind,
+  pathData: string,
+  paints: TransitionPaints,
+  options: TransitionNodeOptions
+): SVGNode {
+  if (options.usesCSS) {
+    const style = Object.entries(paints)
+      .map(([key, [from, to]]) => `--from-${key}: ${from}; --to-${key}: ${to};`)
+      .join(' ');
+    return {
+      type: 'path',
+      attrs: {
+        class: kind == 'stay' ? 'cell' : `cell ${kind}`,
+        style,
+        d: pathData,
+      },
+    };
+  }
+  const attrs: SVGAttributes = {};
+  const changes: TransitionPaints = {};
+  for (const [key, [from, to]] of Object.entries(paints)) {
+    attrs[key] = from;
+    if (from != to) changes[key as keyof TransitionPaints] = [from, to];
+  }
+  const node: SVGElementNode = {
+    type: 'element',
+    tag: 'path',
+    attrs: { class: 'cell', ...attrs, d: pathData },
+    children: getSMILPaintAnimations(changes, options),
+  };
+  if (kind == 'stay') return node;
+  const bbox = getBoundingBox(parsePathData(pathData));
+  return animateWithSMIL(node, getTransitionAnimation(kind, options), {
+    delay: 0,
+    center: { x: bbox.x + bbox.width / 2, y: bbox.y + bbox.height / 2 },
+    filterId: options.getName(`transition-${kind}`),
+  }).node;
+}
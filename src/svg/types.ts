@@ -1,14 +1,31 @@
+import type Cell from '@/grid/cell';
 import type { GridConfig } from '@/grid/types';
+import type { Logger } from '@/logger/types';
+import type {
+  SVG_ANIMATION_PRESETS,
+  SVG_CELL_SHAPES,
+  SVG_COLOR_GENERATORS,
+  SVG_COLOR_MODES,
+  SVG_CONTRAST_ALGORITHMS,
+  SVG_PALETTE_HARMONIES,
+  SVG_STYLINGS,
+} from './constants';
 
 export type SVGInnerConfig = {
   patternAreaRatio: number;
   colors: {
-    background?: SVGColor[];
-    cellFill?: SVGColor[];
-    cellStroke?: SVGColor[];
-    dropShadow?: string[];
+    background?: SVGColorList | SVGColorGenerator;
+    cellFill?: SVGColorList | SVGColorGenerator;
+    cellStroke?: SVGColorList | SVGColorGenerator;
+    dropShadow?: SVGColorList | SVGColorGenerator;
   };
+  palette: SVGPaletteConfig;
+  minContrast: number;
+  contrastAlgorithm: SVGContrastAlgorithm;
   lockColors: ColorCategory[] | 'all';
+  colorMode: SVGColorMode;
+  cellShape: SVGCellShape;
+  animation: SVGAnimationConfig;
   flow: boolean;
   gutter: number;
   cellRounding: { inner: number; outer: number };
@@ -30,10 +47,14 @@ export type SVGInnerConfig = {
   inner: {
     cellSize: number;
     gridSize: Exclude<GridConfig['size'], number>;
+    output: SVGOutputConfig;
+    accessibility: SVGAccessibilityConfig;
     colorIdxPicker: (options: {
       category: ColorCategory;
       colors: SVGColor[];
     }) => number;
+    numberPicker: (min: number, max: number) => number;
+    logger: Required<Logger>;
   };
 };
 
@@ -46,6 +67,97 @@ export type SVGCalculatedValues = {
 
 export type SVGConfig = Omit<SVGInnerConfig, 'inner'>;
 
+export type SVGStyling = (typeof SVG_STYLINGS)[number];
+
+export type SVGOutputConfig = { styling: SVGStyling; uniqueIds: boolean };
+
+export type SVGAccessibilityConfig = {
+  title: string;
+  description: string;
+  decorative: boolean;
+};
+
+// what an avatar was built from, available to the accessibility templates
+export type SVGBuildContext = {
+  seed: string;
+  name?: string;
+  idPrefix?: string;
+};
+
+export type SVGAnimationPreset = (typeof SVG_ANIMATION_PRESETS)[number];
+
+export type SVGAnimationKeyframe = {
+  offset: number;
+  opacity?: number;
+  scale?: number;
+  rotate?: number;
+  hueRotate?: number;
+};
+
+export type SVGAnimationConfig = {
+  preset: SVGAnimationPreset;
+  // replace the preset's keyframes when not empty
+  keyframes: SVGAnimationKeyframe[];
+  // the preset's values are used for the options left out
+  target?: 'pattern' | 'cell';
+  duration?: number;
+  stagger?: number;
+  iterations?: number | 'infinite';
+  easing?: string;
+};
+
+export type SVGAnimation = Required<Omit<SVGAnimationConfig, 'preset'>> & {
+  // how per-cell delays are spread between 0 and `stagger`
+  delays: 'random' | 'column';
+};
+
+export type SVGTransitionOptions = { duration: number; easing: string };
+
+// how a cell changes between the two avatars of a transition: `enter` and
+// `exit` for cells that are only filled in one of them, `fade` for the old
+// shape of a cell that's filled in both but drawn differently, and `stay`
+// otherwise
+export type SVGTransitionKind = 'enter' | 'exit' | 'fade' | 'stay';
+
+// a pair of paints to interpolate between
+export type SVGPaintChange = [from: string, to: string];
+
+// the colors and paths of an avatar, split by cell
+export type SVGFrame = SVGPickedColors & { patterns: SVGPattern[] };
+
+export type SVGCellShape = (typeof SVG_CELL_SHAPES)[number];
+
+export type SVGColorMode = (typeof SVG_COLOR_MODES)[number];
+
+export type SVGPaletteHarmony = (typeof SVG_PALETTE_HARMONIES)[number];
+
+export type SVGPaletteConfig = {
+  // the color the palette is derived from; no palette is generated when empty
+  base: string;
+  harmony: SVGPaletteHarmony;
+  // the number of fill colors
+  size: number;
+};
+
+// picks a new color for every avatar instead of choosing from a list
+export type SVGColorGenerator = {
+  generate: (typeof SVG_COLOR_GENERATORS)[number];
+  // oklch lightness, between 0 and 1
+  lightness?: number;
+  // oklch chroma, between 0 and 0.4
+  chroma?: number;
+};
+
+export type SVGContrastAlgorithm = (typeof SVG_CONTRAST_ALGORITHMS)[number];
+
+export type OKLCH = { l: number; c: number; h: number };
+
+export type SVGPattern = SVGPickedColors & {
+  pathData: string;
+  // the same path split by cell, when cells are animated separately
+  cellPaths?: Map<Cell, string>;
+};
+
 export type SVGGradientTag = 'radialGradient' | 'linearGradient';
 
 export type SVGLinearGradientAttributes = {
@@ -66,6 +178,7 @@ export type SVGRadialGradientAttributes = {
   fx?: string;
   fy?: string;
   fr?: string | 'userSpaceOnUse' | 'objectBoundingBox';
+  gradientUnits?: 'userSpaceOnUse' | 'objectBoundingBox';
   transform?: string;
   href?: string;
   r2: string;
@@ -87,14 +200,98 @@ export type SVGColor =
 
 export type SVGGradientColor = Exclude<SVGColor, string>;
 
+// a color an avatar was given, and its position in the category's list
+// (`null` for generated colors)
+export type SVGColorTrait = {
+  index: number | null;
+  value: SVGColor;
+  dark?: SVGColor;
+};
+
+// a color for each of the light and dark color schemes
+export type SVGColorPair = { light: SVGColor; dark: SVGColor };
+
+export type SVGColorList = Array<SVGColor | SVGColorPair>;
+
 export type ColorCategory = keyof SVGConfig['colors'];
 
 export type ColorsByCategory = { [K in ColorCategory]: SVGColor };
 
+// the positions of picked colors in their lists, which their dark variants
+// are looked up by, since the same light color can be listed more than once
+export type ColorIndices = Partial<Record<ColorCategory, number>>;
+
+export type SVGPickedColors = {
+  colors: ColorsByCategory;
+  indices: ColorIndices;
+};
+
+export type SVGDarkColorOverride = {
+  colors: Partial<ColorsByCategory>;
+  idSuffix: string;
+  // null for the colors of the whole document
+  patternIdx: number | null;
+};
+
 export type Stop = {
   offset: number | `${number}%`;
   color: string;
   opacity?: number;
 };
 
-export type GradientSVGTagMap = Record<ColorCategory, string>;
+export type GradientSVGNodeMap = Record<ColorCategory, SVGGradientNode | null>;
+
+export type SVGFileFormat = 'svg' | 'png';
+
+export type SVGAttributes = Record<string, string | number>;
+
+export type SVGStyleRule = {
+  selector: string;
+  declarations: Record<string, string>;
+  // nested rules of at-rules like `@keyframes` or `@media`
+  rules?: SVGStyleRule[];
+};
+
+export type SVGRootNode = {
+  type: 'root';
+  attrs: SVGAttributes;
+  children: SVGNode[];
+};
+
+export type SVGStyleNode = { type: 'style'; rules: SVGStyleRule[] };
+
+export type SVGDefsNode = { type: 'defs'; children: SVGNode[] };
+
+export type SVGGradientNode = {
+  type: 'gradient';
+  tag: SVGGradientTag;
+  id: string;
+  attrs: SVGAttributes;
+  stops: Stop[];
+};
+
+export type SVGRectNode = { type: 'rect'; attrs: SVGAttributes };
+
+export type SVGPathNode = { type: 'path'; attrs: SVGAttributes };
+
+// any other element, e.g. `<title>`, `<desc>`, `<mask>` or `<g>`
+export type SVGElementNode = {
+  type: 'element';
+  tag: string;
+  attrs: SVGAttributes;
+  children: SVGNode[];
+};
+
+export type SVGTextNode = { type: 'text'; value: string };
+
+export type SVGNode =
+  | SVGRootNode
+  | SVGStyleNode
+  | SVGDefsNode
+  | SVGGradientNode
+  | SVGRectNode
+  | SVGPathNode
+  | SVGElementNode
+  | SVGTextNode;
+
+export type SVGDocument = SVGRootNode;
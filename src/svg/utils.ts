@@ -5,6 +5,22 @@ export function toTrainCase(camelCaseString: string) {
   );
 }
 
+// replaces `{key}` placeholders, leaving unknown ones untouched
+export function formatTemplate(
+  template: string,
+  values: Record<string, string | undefined>
+) {
+  return template.replace(/\{(\w+)\}/g, (match, key: string) =>
+    values[key] === undefined ? match : values[key]!
+  );
+}
+
+// escapes the characters that ids may contain but that have a meaning in
+// css, for the class and keyframe names made out of an id prefix
+export function escapeCSSIdentifier(name: string) {
+  return name.replace(/\./g, '\\.');
+}
+
 export function isEmptyObject(obj: Record<any, any>) {
   for (const prop in obj) {
     if (Object.hasOwn(obj, prop)) {
@@ -13,3 +29,10 @@ export function isEmptyObject(obj: Record<any, any>) {
   }
   return true;
 }
+
+// orders `row:col` keys by row, then column
+export function compareCellKeys(a: string, b: string) {
+  const [rowA, colA] = a.split(':').map(Number) as [number, number];
+  const [rowB, colB] = b.split(':').map(Number) as [number, number];
+  return rowA - rowB || colA - colB;
+}
@@ -0,0 +1,130 @@
+import type { ConfigValidation } from '@/generator/types';
+import { validateAnimation } from './animation';
+import { validateContrast } from './contrast';
+import {
+  getColorEntries,
+  getColorGenerator,
+  getLightColors,
+  getLockedCategories,
+  isColorGenerator,
+  isColorPair,
+  isLockedColor,
+} from './palette';
+import type { ColorCategory, SVGConfig, SVGOutputConfig } from './types';
+
+// checks the options that depend on each other, once the schema has made
+// sure that each of them is valid on its own
+export function validateSVGConfig(
+  config: SVGConfig,
+  output: SVGOutputConfig,
+  validation: ConfigValidation
+) {
+  const errorCount = validation.errors.length;
+  validateAnimation(config.animation, validation);
+  validateColorMode(config, validation);
+  validateColorArrays(config, validation);
+  validateColorGenerators(config, validation);
+  validateLockedColorArrays(config, validation);
+  validateColorPairs(config, output, validation);
+  // picking colors that stand out relies on the color lists being valid
+  if (validation.errors.length == errorCount)
+    validateContrast(config, validation);
+}
+
+function validateColorMode(config: SVGConfig, validation: ConfigValidation) {
+  const { colorMode } = config;
+  if (
+    colorMode != 'uniform' &&
+    isLockedColor(config, 'background') &&
+    isLockedColor(config, 'cellFill')
+  )
+    validation.errors.push({
+      path: 'svg.colorMode',
+      message: `"${colorMode}" picks a cellFill color per cell group, so cellFill can't be locked to background`,
+    });
+}
+
+function validateColorArrays(config: SVGConfig, validation: ConfigValidation) {
+  const { strokeWidth, filters } = config;
+  // generated colors don't count as missing
+  const count = (category: ColorCategory) => {
+    const colors = config.colors[category];
+    return !colors || isColorGenerator(colors) ? null : colors.length;
+  };
+  for (const category of ['background', 'cellFill'] as const) {
+    if (count(category) === 0)
+      validation.errors.push({
+        path: `svg.colors.${category}`,
+        message: 'must have at least one color',
+      });
+  }
+  if (strokeWidth > 0 && count('cellStroke') === 0)
+    validation.warnings.push({
+      path: 'svg.strokeWidth',
+      message: "won't have any effect unless colors.cellStroke is specified",
+    });
+  if (!strokeWidth && count('cellStroke'))
+    validation.warnings.push({
+      path: 'svg.colors.cellStroke',
+      message: "won't have any effect unless strokeWidth is greater than 0",
+    });
+  if ('dropShadow' in filters && count('dropShadow') === 0)
+    validation.warnings.push({
+      path: 'svg.filters.dropShadow',
+      message: "won't have any effect unless colors.dropShadow is specified",
+    });
+  else if (count('dropShadow') && !('dropShadow' in filters))
+    validation.warnings.push({
+      path: 'svg.colors.dropShadow',
+      message: "won't have any effect unless filters.dropShadow is specified",
+    });
+}
+
+function validateColorGenerators(
+  config: SVGConfig,
+  validation: ConfigValidation
+) {
+  for (const category of Object.keys(config.colors) as ColorCategory[]) {
+    if (
+      getColorGenerator(config.colors, category) &&
+      isLockedColor(config, category)
+    )
+      validation.errors.push({
+        path: 'svg.lockColors',
+        message: `can't include ${category}, since colors.${category} is generated for every avatar`,
+      });
+  }
+}
+
+function validateLockedColorArrays(
+  config: SVGConfig,
+  validation: ConfigValidation
+) {
+  const lockColors = getLockedCategories(config);
+  const lengths = new Set(
+    lockColors.map((category) => getLightColors(config.colors, category).length)
+  );
+  if (lengths.size > 1)
+    validation.errors.push({
+      path: 'svg.lockColors',
+      message: `needs the colors of ${lockColors.join(
+        ', '
+      )} to be specified and have equal lengths`,
+    });
+}
+
+// dark variants are switched to by a css media query
+function validateColorPairs(
+  config: SVGConfig,
+  output: SVGOutputConfig,
+  validation: ConfigValidation
+) {
+  if (output.styling == 'css') return;
+  for (const category of Object.keys(config.colors) as ColorCategory[]) {
+    if (getColorEntries(config.colors, category).some(isColorPair))
+      validation.warnings.push({
+        path: `svg.colors.${category}`,
+        message: `has dark variants, which won't have any effect unless output.styling is "css"`,
+      });
+  }
+}
@@ -0,0 +1,133 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { main } from '@/cli/main';
+import { InvalidConfigError } from '../src';
+
+const PNG_SIGNATURE = Buffer.from([137, 80, 78, 71, 13, 10, 26, 10]);
+
+let dir: string;
+let stdout: string;
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'gummygrid-'));
+  stdout = '';
+  vi.spyOn(process.stdout, 'write').mockImplementation((chunk) => {
+    stdout += chunk;
+    return true;
+  });
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe('cli', () => {
+  it('writes an svg for every seed', async () => {
+    await main(['jarvis', 'friday', '--out-dir', dir]);
+    expect(fs.readdirSync(dir).sort()).toEqual(['friday.svg', 'jarvis.svg']);
+    expect(fs.readFileSync(path.join(dir, 'jarvis.svg'), 'utf-8')).toMatch(
+      /^<svg/
+    );
+  });
+
+  it('writes pngs of the given size', async () => {
+    await main(['jarvis', '-o', dir, '-F', 'svg,png', '-s', '48']);
+    expect(fs.readdirSync(dir).sort()).toEqual(['jarvis.png', 'jarvis.svg']);
+    const png = fs.readFileSync(path.join(dir, 'jarvis.png'));
+    expect(png.subarray(0, 8)).toEqual(PNG_SIGNATURE);
+    // the width and height of the IHDR chunk
+    expect([png.readUInt32BE(16), png.readUInt32BE(20)]).toEqual([48, 48]);
+  });
+
+  it('fills in the name template', async () => {
+    await main(['a/b', 'c', '-o', dir, '--name=avatar-{index}-{seed}']);
+    expect(fs.readdirSync(dir).sort()).toEqual([
+      'avatar-0-a_b.svg',
+      'avatar-1-c.svg',
+    ]);
+  });
+
+  it('keeps an extension that is part of the seed', async () => {
+    await main(['logo', 'logo.svg', 'logo.png', '-o', dir, '-F', 'svg,png']);
+    expect(fs.readdirSync(dir).sort()).toEqual([
+      'logo.png',
+      'logo.png.png',
+      'logo.png.svg',
+      'logo.svg',
+      'logo.svg.png',
+      'logo.svg.svg',
+    ]);
+  });
+
+  it('prints the matrix of every seed as a json line', async () => {
+    await main(['jarvis', 'friday', '--matrix', '-o', dir]);
+    const lines = stdout
+      .trim()
+      .split('\n')
+      .map((line) => JSON.parse(line));
+    expect(lines.map(({ seed }) => seed)).toEqual(['jarvis', 'friday']);
+    for (const { matrix } of lines) {
+      expect(matrix.length).toBeGreaterThan(0);
+      expect(
+        matrix.flat().every((cell: unknown) => cell === 0 || cell === 1)
+      ).toBe(true);
+    }
+    expect(fs.readdirSync(dir)).toEqual([]);
+  });
+
+  it('prints svgs instead of writing them', async () => {
+    await main(['jarvis', '--print', '-o', dir]);
+    expect(stdout).toMatch(/^<svg[^]*<\/svg>\n$/);
+    expect(fs.readdirSync(dir)).toEqual([]);
+  });
+
+  it('reads seeds and configs from files', async () => {
+    const seeds = path.join(dir, 'seeds.txt');
+    const config = path.join(dir, 'config.json');
+    fs.writeFileSync(seeds, 'jarvis\r\n\n  friday \n');
+    fs.writeFileSync(config, JSON.stringify({ grid: { size: 3 } }));
+    await main(['--file', seeds, '--config', config, '--matrix']);
+    const lines = stdout
+      .trim()
+      .split('\n')
+      .map((line) => JSON.parse(line));
+    expect(lines.map(({ seed }) => seed)).toEqual(['jarvis', 'friday']);
+    expect(lines[0].matrix).toHaveLength(3);
+  });
+
+  it.each([
+    [['--colour'], 'Unknown option --colour'],
+    [['jarvis', '--out-dir'], 'Missing value for --out-dir'],
+    [['jarvis', '--size', '0'], '--size must be a positive integer'],
+    [['jarvis', '-F', 'svg,gif'], 'Unknown format "gif"'],
+  ])('rejects the arguments %j', async (args, message) => {
+    await expect(main(args)).rejects.toThrow(message);
+  });
+
+  it('rejects an invalid config file', async () => {
+    const config = path.join(dir, 'config.json');
+    fs.writeFileSync(config, JSON.stringify({ svg: { gutter: -1 } }));
+    await expect(main(['jarvis', '-c', config])).rejects.toThrow(
+      InvalidConfigError
+    );
+  });
+
+  it('writes nothing when two seeds would share a file', async () => {
+    const out = path.join(dir, 'out');
+    await expect(main(['jarvis', 'a/b', 'a:b', '-o', out])).rejects.toThrow(
+      'Seeds "a/b" and "a:b" would both be written to a_b'
+    );
+    await expect(
+      main(['jarvis', 'friday', '-o', out, '--name', 'avatar'])
+    ).rejects.toThrow('Seeds "jarvis" and "friday"');
+    expect(fs.existsSync(out)).toBe(false);
+  });
+
+  it('writes a seed given twice once', async () => {
+    await main(['jarvis', 'jarvis', '-o', dir]);
+    expect(fs.readdirSync(dir)).toEqual(['jarvis.svg']);
+  });
+});
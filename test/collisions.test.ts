@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import GummyGrid, { type GummyGridConfig } from '../src';
+
+// a grid this small only has a handful of patterns to share out
+const TINY: GummyGridConfig = {
+  logger: 'silent',
+  grid: { size: 2 },
+  svg: { colors: { background: ['#fff'], cellFill: ['#000'] } },
+};
+const SEEDS = Array.from({ length: 12 }, (_, i) => `user-${i}`);
+
+describe('collisions', () => {
+  it('pairs the seeds whose avatars have the same fingerprint', () => {
+    const gg = new GummyGrid(TINY);
+    const collisions = gg.findCollisions(SEEDS);
+    expect(collisions.length).toBeGreaterThan(0);
+    for (const { seeds, distance } of collisions) {
+      expect(distance).toBe(0);
+      expect(gg.getTraits(seeds[0]).fingerprint).toBe(
+        gg.getTraits(seeds[1]).fingerprint
+      );
+    }
+  });
+
+  it("doesn't report a seed that's listed twice as colliding with itself", () => {
+    const gg = new GummyGrid({ logger: 'silent' });
+    expect(gg.findCollisions(['u1', 'u1'])).toEqual([]);
+    expect(gg.findCollisions(['u1', 'u2', 'u1'])).toEqual([]);
+  });
+
+  it('pairs avatars with the same colors within the distance', () => {
+    const gg = new GummyGrid(TINY);
+    const collisions = gg.findCollisions(SEEDS, { maxDistance: 4 });
+    expect(collisions).toHaveLength((SEEDS.length * (SEEDS.length - 1)) / 2);
+  });
+
+  it('rejects a distance that is negative or fractional', () => {
+    const gg = new GummyGrid({ logger: 'silent' });
+    expect(() => gg.findCollisions(SEEDS, { maxDistance: -1 })).toThrow();
+    expect(() => gg.findCollisions(SEEDS, { maxDistance: 0.5 })).toThrow();
+  });
+});
+
+describe('uniqueness registry', () => {
+  it('gives every seed an avatar of its own', () => {
+    const gg = new GummyGrid({ ...TINY, grid: { size: 5 } });
+    const registry = new Map<string, string>();
+    const fingerprints = SEEDS.map(
+      (seed) => gg.getTraits(seed, { registry }).fingerprint
+    );
+    expect(new Set(fingerprints).size).toBe(SEEDS.length);
+    expect([...registry.values()].sort()).toEqual([...SEEDS].sort());
+  });
+
+  it('gives a seed the same avatar every time', () => {
+    const gg = new GummyGrid(TINY);
+    const registry = new Map<string, string>();
+    const first = SEEDS.slice(0, 3).map((seed) =>
+      gg.buildFrom(seed, { registry }).toString()
+    );
+    const again = SEEDS.slice(0, 3).map((seed) =>
+      gg.buildFrom(seed, { registry }).toString()
+    );
+    expect(again).toEqual(first);
+    expect(registry.size).toBe(3);
+  });
+
+  it('re-salts a seed whose avatar is taken', () => {
+    const gg = new GummyGrid(TINY);
+    const [a, b] = gg.findCollisions(SEEDS)[0]!.seeds;
+    const registry = new Map<string, string>();
+    gg.getTraits(a, { registry });
+    const { fingerprint } = gg.getTraits(b, { registry });
+    expect(fingerprint).not.toBe(gg.getTraits(b).fingerprint);
+    expect(registry.get(fingerprint)).toBe(b);
+  });
+
+  it('throws once every avatar within reach is taken', () => {
+    const gg = new GummyGrid({ ...TINY, grid: { size: 1 } });
+    const registry = new Map<string, string>();
+    expect(() =>
+      SEEDS.forEach((seed) => gg.getTraits(seed, { registry }))
+    ).toThrow("that isn't taken");
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import GummyGrid from '../src';
+
+describe('dark color variants', () => {
+  it('pairs a repeated light color with the dark color at its position', () => {
+    const gg = new GummyGrid({
+      logger: 'silent',
+      svg: {
+        colors: {
+          cellFill: [
+            { light: '#2e3192', dark: '#8e78ff' },
+            { light: '#2e3192', dark: '#ff6b9a' },
+          ],
+        },
+      },
+    });
+    const darkColors = new Set<string>();
+    for (let i = 0; i < 20; i++) {
+      const { index, dark } = gg.getTraits(`seed-${i}`).colors.cellFill!;
+      expect(dark).toBe(index ? '#ff6b9a' : '#8e78ff');
+      darkColors.add(dark as string);
+      expect(gg.buildFrom(`seed-${i}`).toString()).toContain(
+        `--color-cell-fill: ${dark};`
+      );
+    }
+    expect(darkColors.size).toBe(2);
+  });
+
+  it('warns that the attributes styling leaves dark variants out', () => {
+    const warnings: string[] = [];
+    const gg = new GummyGrid({
+      output: { styling: 'attributes' },
+      logger: { warn: (message) => warnings.push(message) },
+      svg: {
+        colors: { background: [{ light: '#ffffff', dark: '#000000' }] },
+      },
+    });
+    expect(warnings).toEqual([
+      'svg.colors.background: has dark variants, which won\'t have any effect unless output.styling is "css"',
+    ]);
+    expect(gg.buildFrom('seed').toString()).not.toContain('#000000');
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest';
+import GummyGrid, { type GummyGridConfig } from '../src';
+import { DEFAULT_AVATAR_GENERATOR_CONFIG } from '@/generator/constants';
+import { cloneObjectRecursively } from '@/generator/utils';
+
+const THEMES: GummyGridConfig[] = [
+  {
+    svg: {
+      colors: { cellFill: ['#ff0000', '#00ff00'], dropShadow: ['#000'] },
+      filters: { dropShadow: ['0', '0', '2px'] },
+    },
+    randomizer: { bias: { colorWeights: { cellFill: [1, 0] } } },
+  },
+  {
+    grid: { size: 7 },
+    svg: {
+      colors: {
+        background: ['#101010', '#202020'],
+        cellStroke: ['#fff', '#eee'],
+      },
+      lockColors: ['background', 'cellStroke'],
+      strokeWidth: 2,
+    },
+  },
+  {
+    randomizer: { algorithm: 'mulberry32', salt: 42 },
+    svg: { cellRounding: { outer: 1, inner: 0.5 }, gutter: 3 },
+  },
+  {},
+];
+
+describe('config resolution', () => {
+  it('keeps instances built side by side from affecting each other', () => {
+    const defaults = cloneObjectRecursively(DEFAULT_AVATAR_GENERATOR_CONFIG);
+    const alone = THEMES.map((theme) =>
+      new GummyGrid(theme).buildFrom('tenant').toString()
+    );
+    const generators = THEMES.map((theme) => new GummyGrid(theme));
+    const together = generators.map((gg) => gg.buildFrom('tenant').toString());
+
+    expect(together).toEqual(alone);
+    expect(DEFAULT_AVATAR_GENERATOR_CONFIG).toEqual(defaults);
+    expect(generators[3]!.config).toEqual(GummyGrid.resolveConfig());
+  });
+
+  it('resolves every instance to exactly the config it uses', () => {
+    for (const theme of THEMES) {
+      const gg = new GummyGrid(theme);
+      expect(gg.config).toEqual(GummyGrid.resolveConfig(theme));
+      expect(Object.isFrozen(gg.config.svg.colors.cellFill)).toBe(true);
+    }
+  });
+
+  it("doesn't share the objects of a config with the instance", () => {
+    const theme = {
+      svg: { colors: { cellFill: ['#123456'] } },
+    } satisfies GummyGridConfig;
+    const gg = new GummyGrid(theme);
+    theme.svg.colors.cellFill.push('#654321');
+
+    expect(gg.config.svg.colors.cellFill).toEqual(['#123456']);
+    expect(new GummyGrid().config.svg.colors.cellFill).toEqual(
+      DEFAULT_AVATAR_GENERATOR_CONFIG.svg.colors.cellFill
+    );
+  });
+
+  it('connects locked color weights without touching the defaults', () => {
+    const gg = new GummyGrid(THEMES[1]);
+    expect(gg.config.randomizer.bias.colorWeights).toEqual({});
+    const weighted = new GummyGrid({
+      ...THEMES[1],
+      randomizer: { bias: { colorWeights: { background: [1, 2] } } },
+    });
+    expect(weighted.config.randomizer.bias.colorWeights).toEqual({
+      background: [1, 2],
+      cellStroke: [1, 2],
+    });
+    expect(
+      DEFAULT_AVATAR_GENERATOR_CONFIG.randomizer.bias.colorWeights
+    ).toEqual({});
+  });
+});
+
+describe('json round trip', () => {
+  GummyGrid.registerPreset('round-trip', {
+    preset: 'neon',
+    grid: { size: 7 },
+  });
+
+  it.each([
+    ...THEMES.map((theme, idx) => [`theme ${idx}`, theme] as const),
+    ['a built-in preset', { preset: 'pixel' }],
+    ['a registered preset', { preset: 'round-trip', svg: { gutter: 1 } }],
+  ] as [string, GummyGridConfig][])(
+    'builds the same avatars from the json of %s',
+    (_, theme) => {
+      const gg = new GummyGrid({ ...theme, logger: 'silent' });
+      const json = JSON.parse(JSON.stringify(gg));
+      expect(json).not.toHaveProperty('preset');
+      const loaded = GummyGrid.fromJSON(json);
+      expect(loaded.toJSON()).toEqual(json);
+      for (const seed of ['jarvis', 'friday'])
+        expect(loaded.buildFrom(seed).toString()).toBe(
+          gg.buildFrom(seed).toString()
+        );
+    }
+  );
+});
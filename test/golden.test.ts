@@ -0,0 +1,246 @@
+import { createHash } from 'node:crypto';
+import { describe, expect, it } from 'vitest';
+import { OUTPUT_VERSIONS } from '@/generator/constants';
+import GummyGrid, { type BuildOptions, type GummyGridConfig } from '../src';
+
+// every avatar a version has ever produced must stay the same, byte for
+// byte. An intended change to the output goes into a new `outputVersion`,
+// with fixtures of its own, instead of updating these
+const SEEDS = [
+  ...Array.from({ length: 12 }, (_, i) => `user-${i}@example.com`),
+  '',
+  '  Ana@X.com ',
+  'café',
+  '🦄',
+];
+// a few hundred more, whose avatars are kept as hashes to keep the
+// fixtures readable
+const HASHED_SEEDS = Array.from({ length: 300 }, (_, i) => `member-${i}`);
+
+const PERMUTATIONS: Record<string, GummyGridConfig> = {
+  default: {},
+  'tall-grid-with-strokes': {
+    grid: {
+      size: { rows: 8, columns: 7 },
+      ensureFill: { topBottom: true, leftRight: true },
+      verticalSymmetry: true,
+    },
+    randomizer: { salt: 3 },
+    svg: {
+      colors: { cellStroke: ['#000', '#111'], dropShadow: ['#222', '#333'] },
+      lockColors: ['cellStroke', 'dropShadow'],
+      strokeWidth: 2,
+      filters: { dropShadow: ['0', '0', '1px'] },
+      cellRounding: { outer: 0.75, inner: 0.25 },
+    },
+  },
+  'sparse-grid-with-gutter': {
+    grid: { size: 12 },
+    randomizer: {
+      bias: {
+        cellFillProbability: 0.3,
+        colorWeights: { cellFill: [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12] },
+      },
+    },
+    svg: { gutter: 2, flow: false, cellRounding: { outer: 1, inner: 0.5 } },
+  },
+  'rotational-mulberry32': {
+    grid: { symmetry: 'rotational2', size: 6 },
+    randomizer: { algorithm: 'mulberry32' },
+  },
+  'four-fold-xoshiro128': {
+    grid: { symmetry: 'rotational4', size: 7 },
+    randomizer: { algorithm: 'xoshiro128' },
+  },
+  'diagonal-sfc32': {
+    grid: { symmetry: 'diagonal', size: 6 },
+    randomizer: { algorithm: 'sfc32' },
+  },
+  'asymmetric-sha256-constrained': {
+    grid: {
+      symmetry: 'none',
+      size: 6,
+      constraints: { connected: true, minFill: 0.3, noIsolatedCells: true },
+    },
+    randomizer: { algorithm: 'sha256' },
+  },
+  'circles-per-cell': {
+    svg: { cellShape: 'circle', colorMode: 'perCell', gutter: 1 },
+  },
+  'hexagons-per-region': {
+    grid: { size: { rows: 6, columns: 7 } },
+    svg: { cellShape: 'hexagon', colorMode: 'perRegion' },
+  },
+  'triangles-per-row': {
+    grid: { size: { rows: 6, columns: 9 } },
+    svg: { cellShape: 'triangle', colorMode: 'perRow' },
+  },
+  'diamonds-and-pluses': {
+    svg: {
+      cellShape: 'diamond',
+      colorMode: 'perColumn',
+      strokeWidth: 1,
+      colors: { cellStroke: ['#1a1a1a'] },
+      paintOrder: 'normal',
+      strokeLineJoin: 'round',
+    },
+  },
+  'attributes-with-accessibility': {
+    output: { styling: 'attributes', uniqueIds: true },
+    accessibility: {
+      title: 'Avatar of {seed}',
+      description: 'The avatar of {name}, generated from "{seed}"',
+    },
+    svg: { cellShape: 'plus', filters: { blur: '0.5px', saturate: '1.5' } },
+  },
+  gradients: {
+    svg: {
+      colors: {
+        background: [
+          {
+            type: 'radialGradient',
+            attrs: { cx: '50%', cy: '50%', r: '70%' },
+            stops: [
+              { offset: 0, color: '#ffffff' },
+              { offset: '100%', color: '#dcdcf5' },
+            ],
+          },
+        ],
+        cellFill: [
+          {
+            type: 'linearGradient',
+            attrs: { x1: '0', y1: '0', x2: '1', y2: '1' },
+            stops: [
+              { offset: 0, color: '#ed1f26' },
+              { offset: 1, color: '#fbb03b', opacity: 0.8 },
+            ],
+          },
+          '#2e3192',
+        ],
+        dropShadow: [
+          {
+            type: 'linearGradient',
+            attrs: { x1: '0', y1: '0', x2: '0', y2: '1' },
+            stops: [
+              { offset: 0, color: '#000000' },
+              { offset: 1, color: '#333333' },
+            ],
+          },
+        ],
+      },
+      filters: { dropShadow: ['1px', '1px', '1px'] },
+    },
+  },
+  'palette-with-contrast': {
+    svg: {
+      palette: { base: '#3e72bd', harmony: 'triadic', size: 5 },
+      minContrast: 3,
+    },
+  },
+  'dark-pairs': {
+    svg: {
+      colors: {
+        background: [{ light: '#ededfe', dark: '#16161d' }],
+        cellFill: [
+          { light: '#2e3192', dark: '#8e78ff' },
+          { light: '#d4145a', dark: '#ff6b9a' },
+          '#fbb03b',
+        ],
+      },
+      minContrast: 2,
+      contrastAlgorithm: 'apca',
+    },
+  },
+  'generated-hues': {
+    randomizer: {
+      seed: { trim: true, lowercase: true, normalize: 'NFC', hash: 'sha256' },
+    },
+    svg: {
+      colors: {
+        background: { generate: 'hue', lightness: 0.95, chroma: 0.03 },
+        cellFill: { generate: 'hue' },
+      },
+    },
+  },
+  'css-animation': {
+    output: { uniqueIds: true },
+    svg: { animation: { preset: 'reveal', stagger: 0.6 } },
+  },
+  'smil-animation': {
+    output: { styling: 'attributes' },
+    svg: {
+      animation: {
+        preset: 'none',
+        target: 'cell',
+        keyframes: [
+          { offset: 0, opacity: 0, scale: 0.5 },
+          { offset: 1, opacity: 1, rotate: 90 },
+        ],
+        iterations: 'infinite',
+      },
+    },
+  },
+  'scoped-styles': {
+    output: { uniqueIds: true },
+    svg: {
+      colors: {
+        background: [{ light: '#ededfe', dark: '#16161d' }],
+        cellFill: [{ light: '#2e3192', dark: '#8e78ff' }, '#d4145a'],
+        dropShadow: ['#00000080'],
+      },
+      colorMode: 'perRegion',
+      filters: { dropShadow: ['0', '1px', '2px'], saturate: '1.2' },
+      animation: { preset: 'pulse' },
+    },
+  },
+  'custom-prefix': {
+    svg: {
+      colors: {
+        cellFill: [
+          {
+            type: 'linearGradient',
+            attrs: { x1: '0', y1: '0', x2: '1', y2: '1' },
+            stops: [
+              { offset: 0, color: '#ed1f26' },
+              { offset: 1, color: '#fbb03b' },
+            ],
+          },
+          { light: '#2e3192', dark: '#8e78ff' },
+        ],
+      },
+      filters: { blur: '0.2px', hueRotate: '15deg' },
+      animation: { preset: 'wave' },
+    },
+  },
+};
+
+// the permutations built with more than a seed
+const BUILD_OPTIONS: Record<string, BuildOptions> = {
+  'custom-prefix': { idPrefix: 'avatar.1', name: 'Avatar 1' },
+};
+
+describe.each(OUTPUT_VERSIONS)('golden output of version %i', (version) => {
+  it.each(Object.entries(PERMUTATIONS))('%s', async (name, config) => {
+    const gg = new GummyGrid({
+      ...config,
+      outputVersion: version,
+      logger: 'silent',
+    });
+    const build = (seed: string) =>
+      gg.buildFrom(seed, BUILD_OPTIONS[name]).toString();
+    const avatars = Object.fromEntries(
+      SEEDS.map((seed) => [seed, build(seed)])
+    );
+    const hashes = Object.fromEntries(
+      HASHED_SEEDS.map((seed) => [seed, hash(build(seed))])
+    );
+    const fixture = { avatars, hashes };
+    await expect(JSON.stringify(fixture, null, 2) + '\n').toMatchFileSnapshot(
+      `fixtures/v${version}/${name}.json`
+    );
+  });
+});
+
+function hash(svg: string) {
+  return createHash('sha256').update(svg).digest('hex').slice(0, 16);
+}
@@ -0,0 +1,228 @@
+import { describe, expect, it } from 'vitest';
+import Grid from '@/grid';
+import type { GridConstraints } from '@/grid/types';
+import { resolveLogger } from '@/logger';
+import GummyGrid, { GridConstraintError } from '../src';
+
+// a grid without symmetry filled like `rows`, where '#' is a filled cell;
+// cells past the pattern (e.g. when retrying) are left empty
+function buildGrid(rows: string[], constraints: GridConstraints = {}) {
+  const cells = rows.join('').split('');
+  const grid = new Grid({
+    size: { rows: rows.length, columns: rows[0]!.length },
+    symmetry: 'none',
+    ensureFill: {},
+    constraints,
+    inner: {
+      fillDecider: () => cells.shift() == '#',
+      numberPicker: (min) => min,
+      logger: resolveLogger('silent'),
+    },
+  });
+  grid.build();
+  return grid;
+}
+
+// (2, 3) only touches the region at the top right through a corner
+const PATTERN = ['##..#', '#...#', '...#.', '.....', '#.##.'];
+
+describe('symmetry', () => {
+  it.each([
+    'vertical',
+    'both',
+    'rotational2',
+    'rotational4',
+    'diagonal',
+  ] as const)(
+    'rejects %s symmetry on lattices other than squares',
+    (symmetry) => {
+      for (const cellShape of ['hexagon', 'triangle'] as const) {
+        expect(
+          () => new GummyGrid({ grid: { symmetry }, svg: { cellShape } })
+        ).toThrow(`grid.symmetry: "${symmetry}" isn't supported by`);
+      }
+      expect(
+        () =>
+          new GummyGrid({ grid: { symmetry }, svg: { cellShape: 'circle' } })
+      ).not.toThrow();
+    }
+  );
+
+  it('mirrors hexagons and triangles left to right', () => {
+    for (const cellShape of ['hexagon', 'triangle'] as const) {
+      const gg = new GummyGrid({ grid: { size: 5 }, svg: { cellShape } });
+      const { matrix } = gg.getTraits('mirror');
+      for (const row of matrix) expect(row).toEqual([...row].reverse());
+    }
+  });
+});
+
+describe('regions', () => {
+  // the coordinates of each region's cells
+  function getRegionCells(grid: Grid, connectivity: 4 | 8) {
+    return grid
+      .getRegions({ connectivity })
+      .map(({ cells }) => cells.map(({ row, col }) => [row, col]));
+  }
+
+  it('connects cells through their sides', () => {
+    expect(getRegionCells(buildGrid(PATTERN), 4)).toEqual([
+      [
+        [0, 0],
+        [0, 1],
+        [1, 0],
+      ],
+      [
+        [0, 4],
+        [1, 4],
+      ],
+      [[2, 3]],
+      [[4, 0]],
+      [
+        [4, 2],
+        [4, 3],
+      ],
+    ]);
+  });
+
+  it('also connects cells through their corners', () => {
+    expect(getRegionCells(buildGrid(PATTERN), 8)).toEqual([
+      [
+        [0, 0],
+        [0, 1],
+        [1, 0],
+      ],
+      [
+        [0, 4],
+        [1, 4],
+        [2, 3],
+      ],
+      [[4, 0]],
+      [
+        [4, 2],
+        [4, 3],
+      ],
+    ]);
+  });
+
+  it('tags each cell with the id of its region', () => {
+    const grid = buildGrid(PATTERN);
+    const cell = grid.getCell({ row: 2, col: 3 })!;
+    expect(cell.getRegionId(4)).toBe(2);
+    expect(cell.getRegionId(8)).toBe(1);
+    expect(cell.belongsToPool()).toBe(false);
+    expect(grid.getCell({ row: 0, col: 0 })!.belongsToPool()).toBe(true);
+    expect(grid.getCell({ row: 3, col: 3 })!.getRegionId()).toBeNull();
+  });
+
+  it('sums up the sizes of the regions', () => {
+    const grid = buildGrid(PATTERN);
+    expect(grid.getRegionStats()).toEqual({
+      count: 5,
+      sizes: [3, 2, 2, 1, 1],
+      largest: 3,
+      smallest: 1,
+      mean: 1.8,
+      isolated: 2,
+    });
+    expect(grid.getRegionStats({ connectivity: 8 })).toEqual({
+      count: 4,
+      sizes: [3, 3, 2, 1],
+      largest: 3,
+      smallest: 1,
+      mean: 2.25,
+      isolated: 1,
+    });
+    expect(buildGrid(['...', '...']).getRegionStats()).toEqual({
+      count: 0,
+      sizes: [],
+      largest: 0,
+      smallest: 0,
+      mean: 0,
+      isolated: 0,
+    });
+  });
+
+  it('counts the regions of an avatar in its traits', () => {
+    const gg = new GummyGrid({ logger: 'silent' });
+    for (const seed of ['jarvis', 'friday', 'edith']) {
+      const { regionCount } = gg.getTraits(seed);
+      expect(regionCount).toBe(gg.grid.getRegions().length);
+      expect(regionCount).toBeGreaterThan(0);
+    }
+  });
+});
+
+describe('constraints', () => {
+  it('unfills isolated cells', () => {
+    const grid = buildGrid(PATTERN, { noIsolatedCells: true });
+    expect(grid.getMatrix()).toEqual([
+      [1, 1, 0, 0, 1],
+      [1, 0, 0, 0, 1],
+      [0, 0, 0, 0, 0],
+      [0, 0, 0, 0, 0],
+      [0, 0, 1, 1, 0],
+    ]);
+  });
+
+  it('keeps the largest regions, the first of the same size', () => {
+    expect(buildGrid(PATTERN, { maxRegions: 2 }).getMatrix()).toEqual([
+      [1, 1, 0, 0, 1],
+      [1, 0, 0, 0, 1],
+      [0, 0, 0, 0, 0],
+      [0, 0, 0, 0, 0],
+      [0, 0, 0, 0, 0],
+    ]);
+    const connected = buildGrid(PATTERN, { connected: true, connectivity: 8 });
+    expect(connected.getRegions({ connectivity: 8 })).toHaveLength(1);
+    expect(connected.getFillRatio()).toBeCloseTo(3 / 25);
+  });
+
+  it('retries until the constraints are met', () => {
+    // the retry gets no filled cells from the pattern
+    const grid = buildGrid(['###', '###'], { maxFill: 0.5 });
+    expect(grid.getFillRatio()).toBe(0);
+  });
+
+  it("throws the constraints it couldn't meet", () => {
+    const build = () => buildGrid(PATTERN, { minFill: 0.5, maxAttempts: 3 });
+    expect(build).toThrow(GridConstraintError);
+    expect(build).toThrow(
+      "Couldn't satisfy the grid constraints (minFill) within 3 attempts"
+    );
+    try {
+      build();
+    } catch (e) {
+      expect((e as GridConstraintError).failedConstraints).toEqual(['minFill']);
+    }
+  });
+
+  it('names the seed that failed the constraints', () => {
+    const gg = new GummyGrid({
+      logger: 'silent',
+      grid: { constraints: { minFill: 1, maxAttempts: 2 } },
+    });
+    expect(() => gg.getTraits('jarvis')).toThrow(GridConstraintError);
+    expect(() => gg.getTraits('jarvis')).toThrow(
+      'within 2 attempts for seed "jarvis"'
+    );
+  });
+
+  it('meets the constraints the same way for the same seed', () => {
+    const config = {
+      logger: 'silent',
+      grid: {
+        constraints: { minFill: 0.3, maxFill: 0.6, connected: true },
+      },
+    } as const;
+    for (const seed of ['jarvis', 'friday', 'edith']) {
+      const { matrix, regionCount, fillRatio } = new GummyGrid(
+        config
+      ).getTraits(seed);
+      expect(new GummyGrid(config).getTraits(seed).matrix).toEqual(matrix);
+      expect(regionCount).toBe(1);
+      expect(fillRatio).toBeGreaterThanOrEqual(0.3);
+      expect(fillRatio).toBeLessThanOrEqual(0.6);
+    }
+  });
+});
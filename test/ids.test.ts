@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import GummyGrid from '../src';
+
+// the selectors of the rules in a `<style>`, at-rules included
+function getSelectors(svg: string) {
+  const css = svg.match(/<style>(.*)<\/style>/)![1]!;
+  return [...css.matchAll(/([^{};]+)\{/g)].map(([, selector]) => selector!);
+}
+
+describe('unique ids', () => {
+  it('scopes every style rule to the prefixed root element', () => {
+    const gg = new GummyGrid({
+      logger: 'silent',
+      output: { uniqueIds: true },
+      svg: {
+        colors: {
+          background: [{ light: '#ffffff', dark: '#000000' }],
+          cellFill: [{ light: '#ff0000', dark: '#990000' }, '#00ff00'],
+        },
+        colorMode: 'perRegion',
+        animation: { preset: 'reveal' },
+      },
+    });
+    const svg = gg.buildFrom('seed').toString();
+    const prefix = svg.match(/<svg [^>]*class="(gg-[0-9a-f]{8})"/)![1]!;
+    const selectors = getSelectors(svg);
+    expect(selectors).toContain(`.${prefix}`);
+    expect(selectors).toContain(`@keyframes ${prefix}-animation`);
+    for (const selector of selectors) {
+      if (/^(@|\d+%$)/.test(selector)) continue;
+      expect(selector.startsWith(`.${prefix}`)).toBe(true);
+    }
+    expect(svg).not.toContain(':root');
+  });
+
+  it('escapes the dots of a custom prefix in css', () => {
+    const gg = new GummyGrid({
+      logger: 'silent',
+      svg: { animation: { preset: 'reveal' } },
+    });
+    const svg = gg.buildFrom('seed', { idPrefix: 'avatar.1' }).toString();
+    expect(svg).toContain('class="avatar.1"');
+    expect(getSelectors(svg)).toEqual(
+      expect.arrayContaining([
+        '.avatar\\.1',
+        '.avatar\\.1 .pattern',
+        '@keyframes avatar\\.1-animation',
+      ])
+    );
+  });
+
+  it('leaves the styles of unprefixed avatars unscoped', () => {
+    const svg = new GummyGrid({ logger: 'silent' })
+      .buildFrom('seed')
+      .toString();
+    expect(getSelectors(svg).slice(0, 3)).toEqual([
+      ':root',
+      '.background',
+      '.pattern',
+    ]);
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import GummyGrid from '../src';
+import { BUILT_IN_PRESET_NAMES } from '@/generator/constants';
+
+const SEEDS = ['alice', 'bob', 'carol', 'dave'];
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+GummyGrid.registerPreset('midnight', {
+  preset: 'neon',
+  grid: { size: 6, symmetry: 'both' },
+  svg: { palette: { base: '#05d9e8', harmony: 'complementary' } },
+});
+
+describe('presets', () => {
+  it('lists the built-in presets and the registered ones', () => {
+    expect(GummyGrid.getPresetNames()).toEqual([
+      ...BUILT_IN_PRESET_NAMES,
+      'midnight',
+    ]);
+  });
+
+  it.each(GummyGrid.getPresetNames())('renders %s', async (preset) => {
+    const gg = new GummyGrid({ preset, outputVersion: 1, logger: 'silent' });
+    const avatars = Object.fromEntries(
+      SEEDS.map((seed) => [seed, gg.buildFrom(seed).toString()])
+    );
+    await expect(JSON.stringify(avatars, null, 2) + '\n').toMatchFileSnapshot(
+      `fixtures/presets/${preset}.json`
+    );
+
+    const png = await gg.svg.toPNG({ size: 64 });
+    expect([...png.subarray(0, 8)]).toEqual(PNG_SIGNATURE);
+  });
+
+  it('layers a config over its preset', () => {
+    const gg = new GummyGrid({ preset: 'midnight', grid: { size: 4 } });
+    expect(gg.config.grid.size).toBe(4);
+    expect(gg.config.grid.symmetry).toBe('both');
+    expect(gg.config.svg.colors.background).not.toEqual(['#0d0221']);
+    expect(gg.config.svg.filters).toEqual({ dropShadow: ['0', '0', '3px'] });
+  });
+
+  it("doesn't let a built-in preset be replaced", () => {
+    expect(() => GummyGrid.registerPreset('gummy', {})).toThrow(
+      'Preset "gummy" is built in'
+    );
+  });
+});
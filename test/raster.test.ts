@@ -0,0 +1,102 @@
+import zlib from 'zlib';
+import { describe, expect, it } from 'vitest';
+import { parseColor } from '@/raster/colors';
+import { parseLength } from '@/raster/filters';
+import GummyGrid, { type GummyGridConfig } from '../src';
+
+// the size and rgba pixels of a png, as the renderer writes it: 8-bit rgba,
+// with every scanline left unfiltered
+function decodePNG(png: Buffer) {
+  expect(png.subarray(0, 8).toString('hex')).toBe('89504e470d0a1a0a');
+  const idat: Buffer[] = [];
+  let width = 0;
+  let height = 0;
+  for (let offset = 8; offset < png.length; ) {
+    const length = png.readUInt32BE(offset);
+    const type = png.toString('ascii', offset + 4, offset + 8);
+    const data = png.subarray(offset + 8, offset + 8 + length);
+    if (type == 'IHDR') {
+      width = data.readUInt32BE(0);
+      height = data.readUInt32BE(4);
+      expect([...data.subarray(8)]).toEqual([8, 6, 0, 0, 0]);
+    }
+    if (type == 'IDAT') idat.push(data);
+    offset += length + 12;
+  }
+  const raw = zlib.inflateSync(Buffer.concat(idat));
+  const rowLength = width * 4 + 1;
+  expect(raw.length).toBe(rowLength * height);
+  const pixel = (x: number, y: number) => {
+    expect(raw[y * rowLength]).toBe(0);
+    const i = y * rowLength + 1 + x * 4;
+    return raw.subarray(i, i + 4).toString('hex');
+  };
+  return { width, height, pixel };
+}
+
+// an avatar with every cell filled (or none), in red on white
+function createGenerator(cellFillProbability: number) {
+  const config: GummyGridConfig = {
+    logger: 'silent',
+    grid: { size: 3 },
+    randomizer: { bias: { cellFillProbability } },
+    svg: { colors: { background: ['#fff'], cellFill: ['#f00'] } },
+  };
+  return new GummyGrid(config);
+}
+
+describe('color parsing', () => {
+  it('reads named colors regardless of case', () => {
+    expect(parseColor(' RebeccaPurple')).toEqual([0.4, 0.2, 0.6, 1]);
+  });
+
+  it.each(['constructor', 'toString', '__proto__'])(
+    'rejects the inherited name %s',
+    (name) => {
+      expect(() => parseColor(name)).toThrow(`Unsupported color "${name}"`);
+    }
+  );
+});
+
+describe('length parsing', () => {
+  it.each([
+    ['2px', 2],
+    ['1in', 96],
+    ['0.5em', 8],
+    ['-3pt', -4],
+    ['0', 0],
+  ])('reads %s as %d px', (value, px) => {
+    expect(parseLength(value)).toBeCloseTo(px);
+  });
+});
+
+describe('png output', () => {
+  it('paints the cells over the background', async () => {
+    const png = await createGenerator(1).buildFrom('x').toPNG({ size: 30 });
+    const { width, height, pixel } = decodePNG(png);
+    expect([width, height]).toEqual([30, 30]);
+    expect(pixel(15, 15)).toBe('ff0000ff');
+    expect(pixel(8, 22)).toBe('ff0000ff');
+    for (const [x, y] of [
+      [0, 0],
+      [29, 0],
+      [0, 29],
+      [29, 29],
+    ] as const)
+      expect(pixel(x, y)).toBe('ffffffff');
+  });
+
+  it('only paints the background of an empty grid', async () => {
+    const png = await createGenerator(0).buildFrom('x').toPNG({ size: 30 });
+    const { pixel } = decodePNG(png);
+    for (let y = 0; y < 30; y++)
+      for (let x = 0; x < 30; x++) expect(pixel(x, y)).toBe('ffffffff');
+  });
+
+  it('defaults to the size of the svg', async () => {
+    const svg = createGenerator(1).buildFrom('x');
+    const size = Number(/ width="([\d.]+)"/.exec(svg.toString())![1]);
+    const { width, height } = decodePNG(await svg.toPNG());
+    expect([width, height]).toEqual([Math.round(size), Math.round(size)]);
+  });
+});
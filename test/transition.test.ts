@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import GummyGrid, { UnknownEasingError } from '../src';
+
+function countMatches(svg: string, pattern: RegExp) {
+  return svg.match(pattern)?.length ?? 0;
+}
+
+describe('transitions', () => {
+  it('grows in, shrinks out and keeps the cells of the two avatars', () => {
+    const gg = new GummyGrid({ logger: 'silent' });
+    const from = gg.getTraits('jarvis').matrix.flat();
+    const to = gg.getTraits('friday').matrix.flat();
+    const svg = gg.transition('jarvis', 'friday').toString();
+    const count = (test: (a: number, b: number) => boolean) =>
+      from.filter((filled, idx) => test(filled, to[idx]!)).length;
+    expect(countMatches(svg, /class="cell enter"/g)).toBe(
+      count((a, b) => !a && !!b)
+    );
+    expect(countMatches(svg, /class="cell exit"/g)).toBe(
+      count((a, b) => !!a && !b)
+    );
+    expect(countMatches(svg, /class="cell"/g)).toBe(
+      count((a, b) => !!a && !!b)
+    );
+  });
+
+  it('times every animation with the duration and easing', () => {
+    const gg = new GummyGrid({ logger: 'silent' });
+    const svg = gg
+      .transition('jarvis', 'friday', { duration: 1.5, easing: 'ease-in' })
+      .toString();
+    expect(svg).toContain('transition-background 1.5s ease-in 0s 1 both');
+    expect(svg).not.toContain('0.6s');
+  });
+
+  it('animates with smil under the attributes styling', () => {
+    const gg = new GummyGrid({
+      logger: 'silent',
+      output: { styling: 'attributes' },
+    });
+    const svg = gg.transition('jarvis', 'friday').toString();
+    expect(svg).not.toContain('<style>');
+    expect(svg).toContain('<animate ');
+    expect(svg).toContain('keySplines="0.42 0 0.58 1"');
+    const linear = gg
+      .transition('jarvis', 'friday', { easing: 'linear', duration: 2 })
+      .toString();
+    expect(linear).toContain('dur="2s"');
+    expect(linear).not.toContain('keySplines');
+  });
+
+  it('describes and prefixes the avatar it ends on', () => {
+    const gg = new GummyGrid({
+      logger: 'silent',
+      accessibility: { title: 'Avatar of {name}' },
+    });
+    const svg = gg
+      .transition('jarvis', 'friday', { name: 'Friday', idPrefix: 'change' })
+      .toString();
+    expect(svg).toContain('<title>Avatar of Friday</title>');
+    expect(svg).toContain('@keyframes change-transition-paint');
+    expect(svg).toContain('class="change"');
+  });
+
+  it('is the same every time', () => {
+    const gg = new GummyGrid({ logger: 'silent' });
+    expect(gg.transition('jarvis', 'friday').toString()).toBe(
+      new GummyGrid({ logger: 'silent' })
+        .transition('jarvis', 'friday')
+        .toString()
+    );
+  });
+
+  it.each(['bounce', 'toString', 'constructor', 'cubic-bezier(1, 2)'])(
+    'rejects the easing %s',
+    (easing) => {
+      const gg = new GummyGrid({ logger: 'silent' });
+      expect(() => gg.transition('jarvis', 'friday', { easing })).toThrow(
+        UnknownEasingError
+      );
+    }
+  );
+
+  it('rejects a duration that is not positive', () => {
+    const gg = new GummyGrid({ logger: 'silent' });
+    expect(() => gg.transition('jarvis', 'friday', { duration: 0 })).toThrow(
+      'Transition duration must be a positive number of seconds'
+    );
+  });
+});
@@ -0,0 +1,167 @@
+import { describe, expect, it } from 'vitest';
+import GummyGrid, {
+  ConfigJSONError,
+  GummyGridConfigError,
+  InvalidConfigError,
+  UnknownPresetError,
+  type GummyGridConfig,
+} from '../src';
+
+// the paths of the errors found in `config`
+function getErrorPaths(config: GummyGridConfig) {
+  return GummyGrid.validate(config).errors.map(({ path }) => path);
+}
+
+describe('config validation', () => {
+  it('finds no issues with the defaults and the built-in presets', () => {
+    expect(GummyGrid.validate()).toEqual({ errors: [], warnings: [] });
+    for (const preset of GummyGrid.getPresetNames())
+      expect(GummyGrid.validate({ preset }).errors).toEqual([]);
+  });
+
+  it('accepts lengths in any css unit', () => {
+    const { errors } = GummyGrid.validate({
+      svg: { filters: { blur: '0.1em', dropShadow: ['-1mm', '0', '2pt'] } },
+    });
+    expect(errors).toEqual([]);
+  });
+
+  it('only warns about options it does not know', () => {
+    const config = { grid: { ensureFill: { top: true } }, svgs: {} };
+    expect(GummyGrid.validate(config as GummyGridConfig)).toEqual({
+      errors: [],
+      warnings: [
+        {
+          path: 'grid.ensureFill.top',
+          message: "isn't an option, and is ignored",
+        },
+        { path: 'svgs', message: "isn't an option, and is ignored" },
+      ],
+    });
+  });
+
+  it.each([
+    ['svg.patternAreaRatio', { svg: { patternAreaRatio: 0 } }],
+    ['svg.patternAreaRatio', { svg: { patternAreaRatio: 1.5 } }],
+    ['svg.gutter', { svg: { gutter: -1 } }],
+    ['svg.strokeWidth', { svg: { strokeWidth: -2 } }],
+    [
+      'randomizer.bias.cellFillProbability',
+      { randomizer: { bias: { cellFillProbability: 2 } } },
+    ],
+    [
+      'svg.animation.easing',
+      { svg: { animation: { preset: 'pulse', easing: 'constructor' } } },
+    ],
+    ['svg.filters.blur', { svg: { filters: { blur: '3' } } }],
+    ['svg.filters.saturate', { svg: { filters: { saturate: 'lots' } } }],
+    ['svg.filters.hueRotate', { svg: { filters: { hueRotate: '90' } } }],
+    [
+      'svg.filters.dropShadow[2]',
+      { svg: { filters: { dropShadow: ['0', '0', '-2px'] } } },
+    ],
+  ] as [string, GummyGridConfig][])('reports an invalid %s', (path, config) => {
+    expect(getErrorPaths(config)).toEqual([path]);
+  });
+
+  it('keys the issues of options that depend on each other by path', () => {
+    const { errors } = GummyGrid.validate({
+      grid: { constraints: { minFill: 0.8, maxFill: 0.2 } },
+      svg: { colors: { background: [], cellFill: ['#f00', '#0f0'] } },
+      randomizer: { bias: { colorWeights: { cellFill: [1] } } },
+    });
+    expect(errors).toEqual([
+      {
+        path: 'grid.constraints.minFill',
+        message: 'must not be greater than maxFill',
+      },
+      {
+        path: 'svg.colors.background',
+        message: 'must have at least one color',
+      },
+      {
+        path: 'randomizer.bias.colorWeights.cellFill',
+        message: 'must have as many weights as colors.cellFill has colors (2)',
+      },
+    ]);
+  });
+
+  it('reports the colors that contrast cannot be measured for', () => {
+    const { errors } = GummyGrid.validate({
+      svg: {
+        minContrast: 3,
+        colors: {
+          cellFill: ['bogus', { light: '#000', dark: 'constructor' }],
+        },
+      },
+    });
+    expect(errors).toEqual([
+      {
+        path: 'svg.colors.cellFill[0]',
+        message: '"bogus" isn\'t a supported color',
+      },
+      {
+        path: 'svg.colors.cellFill[1].dark',
+        message: '"constructor" isn\'t a supported color',
+      },
+    ]);
+  });
+
+  it('separates the options without any effect from the errors', () => {
+    const config: GummyGridConfig = {
+      svg: { strokeWidth: 0, colors: { cellStroke: ['#000'] } },
+    };
+    expect(GummyGrid.validate(config)).toEqual({
+      errors: [],
+      warnings: [
+        {
+          path: 'svg.colors.cellStroke',
+          message: "won't have any effect unless strokeWidth is greater than 0",
+        },
+      ],
+    });
+    const warnings: string[] = [];
+    new GummyGrid({
+      ...config,
+      logger: { warn: (message) => warnings.push(message) },
+    });
+    expect(warnings).toEqual([
+      "svg.colors.cellStroke: won't have any effect unless strokeWidth is greater than 0",
+    ]);
+  });
+
+  it('throws every error at once when creating a generator', () => {
+    const create = () =>
+      new GummyGrid({ svg: { gutter: -1, strokeWidth: -1 } });
+    expect(create).toThrow(InvalidConfigError);
+    expect(create).toThrow(GummyGridConfigError);
+    try {
+      create();
+    } catch (e) {
+      expect((e as InvalidConfigError).issues.map(({ path }) => path)).toEqual([
+        'svg.gutter',
+        'svg.strokeWidth',
+      ]);
+    }
+  });
+
+  it('reports an unknown preset', () => {
+    expect(getErrorPaths({ preset: 'nope' })).toEqual(['preset']);
+    expect(() => GummyGrid.resolveConfig({ preset: 'nope' })).toThrow(
+      UnknownPresetError
+    );
+  });
+
+  it('reports an invalid logger', () => {
+    expect(getErrorPaths({ logger: { warn: 'loud' } as never })).toEqual([
+      'logger.warn',
+    ]);
+  });
+
+  it('throws a typed error for json that does not parse', () => {
+    expect(() => GummyGrid.fromJSON('{')).toThrow(ConfigJSONError);
+    expect(() => GummyGrid.fromJSON({ svg: { gutter: -1 } })).toThrow(
+      InvalidConfigError
+    );
+  });
+});